@@ -6,10 +6,36 @@
  * speech-to-speech model for ~200-300ms response latency.
  */
 
-import { Type, type Static } from "@sinclair/typebox";
+import { Type, type Static, type TUnsafe } from "@sinclair/typebox";
 import { spawn } from "node:child_process";
-import { parseConfig, type PluginConfig } from "./src/config.ts";
-import { CallManager } from "./src/call-manager.ts";
+import { readFileSync, writeFileSync } from "node:fs";
+import {
+  OPENAI_VOICES,
+  TRANSFER_TARGET_PATTERN,
+  VAD_EAGERNESS,
+  VAD_TYPES,
+  VOICEMAIL_POLICIES,
+  parseCallOverrides,
+  parseConfig,
+  resolveCallSettings,
+  type CallOverrides,
+  type CallSettings,
+  type PluginConfig,
+} from "./src/config.ts";
+import { CALL_PRIORITIES, OutboundQueue, type CallPriority } from "./src/call-queue.ts";
+import { CALL_STATUSES, CallManager, isTerminalStatus, type CallCancellation, type CallRecord } from "./src/call-manager.ts";
+import { CallStore, parseTimeFilter, UNREDACTED_CALLS_FILE } from "./src/call-store.ts";
+import { redactor } from "./src/redaction.ts";
+import { OutboundPolicy } from "./src/outbound-policy.ts";
+import { RecordingStore, type RecordingInfo } from "./src/recording.ts";
+import {
+  CallResultDispatcher,
+  formatCallReport,
+  toCallResult,
+  toCallSummary,
+  type CallResult,
+  type CallSummary,
+} from "./src/call-result.ts";
 import { TwilioClient, type TwilioCallDetails, type TwilioCallEvent } from "./src/twilio-client.ts";
 import { VoiceServer } from "./src/server.ts";
 import { checkStatus, type StatusResult } from "./src/status.ts";
@@ -19,6 +45,17 @@ import {
   type CallContext,
 } from "./src/prompts.ts";
 import { assertPublicUrlResolvesToPublicIp } from "./src/public-url.ts";
+import { formatCallMonitorEvent } from "./src/call-events.ts";
+import { AgentConsultBroker } from "./src/consult.ts";
+import { createWebhookTool, voiceToolRegistry } from "./src/voice-tools.ts";
+import { inferCallOutcome, OpenAICallSummarizer, type CallSummarizer } from "./src/call-summarizer.ts";
+import { CallScheduler, MAX_SCHEDULE_AHEAD_DAYS, type ScheduledCall } from "./src/scheduler.ts";
+import { getRetryDelayMs, getRetryReason } from "./src/retry-policy.ts";
+import { hangupCall, type HangupCallResult, type HangupDeps } from "./src/hangup.ts";
+
+function stringEnum<T extends readonly string[]>(values: T, options: { description: string }): TUnsafe<T[number]> {
+  return Type.Unsafe<T[number]>({ type: "string", enum: [...values], ...options });
+}
 
 const MakePhoneCallParams = Type.Object({
   to: Type.String({
@@ -61,10 +98,119 @@ const MakePhoneCallParams = Type.Object({
       '"Call the restaurant and make a reservation."',
     maxLength: MAX_SYSTEM_PROMPT_LENGTH,
   }),
+  voice: Type.Optional(
+    stringEnum(OPENAI_VOICES, {
+      description: "Voice for this call. Defaults to the configured voice. Pick a calmer voice for sensitive calls.",
+    })
+  ),
+  model: Type.Optional(
+    Type.String({ description: "OpenAI Realtime model for this call. Defaults to the configured model." })
+  ),
+  vadType: Type.Optional(
+    stringEnum(VAD_TYPES, { description: "Turn detection type for this call. Defaults to the configured VAD type." })
+  ),
+  vadEagerness: Type.Optional(
+    stringEnum(VAD_EAGERNESS, {
+      description:
+        "How quickly the voice AI takes its turn. Use 'low' for noisy places (restaurants) so it doesn't interrupt, " +
+        "'high' for quick back-and-forth. Defaults to the configured eagerness.",
+    })
+  ),
+  maxDurationSeconds: Type.Optional(
+    Type.Integer({
+      description: "Hang up after this many seconds. Can shorten but not exceed the configured maximum.",
+      minimum: 60,
+    })
+  ),
+  language: Type.Optional(
+    Type.String({
+      description: "ISO 639-1 code of the language to speak on the call (e.g. 'en', 'es'). Defaults to the callee's language.",
+      pattern: "^[a-zA-Z]{2}$",
+    })
+  ),
+  voicemail: Type.Optional(
+    stringEnum(VOICEMAIL_POLICIES, {
+      description:
+        "What to do if the call reaches voicemail: 'hangup', 'ai' (the voice AI leaves a short message from your brief " +
+        "after the beep), or 'message' (plays voicemailMessage). Defaults to the configured voicemail.policy.",
+    })
+  ),
+  voicemailMessage: Type.Optional(
+    Type.String({ description: "Exact message to leave on voicemail with voicemail: 'message'." })
+  ),
+  outcomeSchema: Type.Optional(
+    Type.Record(Type.String(), Type.Unknown(), {
+      description:
+        "JSON Schema (type 'object') for the structured outcome details you need back, e.g. " +
+        "{type:'object', properties:{confirmationNumber:{type:'string'}, time:{type:'string'}, partySize:{type:'integer'}}, " +
+        "required:['confirmationNumber','time']}. The voice AI must report details in this shape, and missing required " +
+        "fields are flagged in the result. Supports type, properties, required, items, enum, description.",
+    })
+  ),
+  tools: Type.Optional(
+    Type.Array(Type.String(), {
+      description:
+        "Names of custom voice tools (e.g. calendar or order lookups) the voice AI may use on this call. " +
+        "Omit to allow every registered custom tool; pass [] to allow none.",
+    })
+  ),
+  priority: Type.Optional(
+    stringEnum(CALL_PRIORITIES, {
+      description:
+        "Queue priority if all phone lines are busy: 'high' calls are dialed before 'normal' and 'low'. Defaults to 'normal'.",
+    })
+  ),
+  scheduleAt: Type.Optional(
+    Type.String({
+      description:
+        "Place the call later instead of now: an ISO 8601 time with timezone offset (e.g. '2026-03-02T08:00:00-08:00'). " +
+        `The call is dialed at or shortly after this time, up to ${MAX_SCHEDULE_AHEAD_DAYS} days ahead. ` +
+        "Use this for calls that must happen when a business opens.",
+    })
+  ),
+  waitForResult: Type.Optional(
+    Type.Boolean({
+      description:
+        "If true, wait for the call to finish and return the outcome and transcript directly. " +
+        "Otherwise the tool returns once the call is dialing and the result is delivered to this session when the call ends.",
+    })
+  ),
+  waitTimeoutSeconds: Type.Optional(
+    Type.Integer({
+      description:
+        "Maximum seconds to wait when waitForResult is true. Defaults to ring timeout plus max call duration.",
+      minimum: 10,
+    })
+  ),
 });
 
 type MakePhoneCallParamsType = Static<typeof MakePhoneCallParams>;
 
+const GetCallResultParams = Type.Object({
+  callId: Type.Optional(
+    Type.String({ description: "Call ID returned by make_phone_call (e.g. call_1700000000000_abc123)" })
+  ),
+  callSid: Type.Optional(Type.String({ description: "Twilio Call SID (CA...)" })),
+});
+
+type GetCallResultParamsType = Static<typeof GetCallResultParams>;
+
+const AnswerCallQuestionParams = Type.Object({
+  callId: Type.String({ description: "Call ID from the voice agent's question" }),
+  answer: Type.String({
+    description: "Your answer, phrased so the voice agent can relay it directly (e.g. 'Yes, 7:30 works')",
+  }),
+});
+
+type AnswerCallQuestionParamsType = Static<typeof AnswerCallQuestionParams>;
+
+const CancelPhoneCallParams = Type.Object({
+  callId: Type.String({ description: "Call ID returned by make_phone_call" }),
+  reason: Type.Optional(Type.String({ description: "Why the call is being cancelled (kept in the call record)" })),
+});
+
+type CancelPhoneCallParamsType = Static<typeof CancelPhoneCallParams>;
+
 const voiceRealtimeConfigSchema = {
   parse(value: unknown) {
     const raw =
@@ -94,27 +240,121 @@ const voiceRealtimeConfigSchema = {
     },
     "calls.timeoutSeconds": { label: "Ring Timeout (sec)", advanced: true },
     "calls.enableAmd": { label: "Answering Machine Detection", advanced: true },
+    "calls.amdMode": { label: "AMD Mode", advanced: true },
+    "calls.amdTimeoutSeconds": { label: "AMD Timeout (sec)", advanced: true },
+    "calls.machineStartGraceSeconds": { label: "Machine Greeting Grace (sec)", advanced: true },
     "calls.maxConcurrent": { label: "Max Concurrent Calls", advanced: true },
+    "calls.reservedInboundLines": { label: "Reserved Inbound Lines", advanced: true },
+    "calls.deliverResults": { label: "Deliver Results to Agent", advanced: true },
+    "calls.retry.maxAttempts": { label: "Max Call Attempts", advanced: true },
+    "calls.retry.backoffSeconds": { label: "Retry Backoff (sec)", advanced: true },
+    "calls.retry.backoffMultiplier": { label: "Retry Backoff Multiplier", advanced: true },
+    "calls.retry.retryOn": { label: "Retry On Statuses", advanced: true },
+    "calls.retry.voicemailCountsAsDone": { label: "Voicemail Counts as Done", advanced: true },
+    "calls.queue.enabled": { label: "Queue Calls When Busy", advanced: true },
+    "calls.queue.maxSize": { label: "Max Queue Size", advanced: true },
+    "calls.queue.maxWaitSeconds": { label: "Max Queue Wait (sec)", advanced: true },
     "inbound.enabled": { label: "Enable Inbound Calls" },
     "inbound.policy": { label: "Inbound Policy" },
     "inbound.allowFrom": { label: "Allowed Callers (E.164)", advanced: true },
     "inbound.greeting": { label: "Inbound Greeting" },
     "inbound.systemPrompt": { label: "Inbound System Prompt", advanced: true },
+    "transfer.enabled": { label: "Enable Call Transfer" },
+    "transfer.target": { label: "Transfer Target (E.164 or SIP URI)", placeholder: "+14155551234" },
+    "transfer.announcement": { label: "Transfer Announcement", advanced: true },
+    "transfer.timeoutSeconds": { label: "Transfer Ring Timeout (sec)", advanced: true },
+    "dtmf.forwardToModel": { label: "Forward Keypresses to Voice Model", advanced: true },
+    "dtmf.collectDigits": { label: "Keypad Entry Tool (collect_digits)", advanced: true },
+    "dtmf.maxCollectSeconds": { label: "Max Keypad Entry Wait (sec)", advanced: true },
+    "dtmf.sendMode": { label: "Key Press Mode (send_dtmf)", advanced: true },
+    "dtmf.toneDurationMs": { label: "DTMF Tone Length (ms)", advanced: true },
+    "dtmf.gapMs": { label: "DTMF Tone Gap (ms)", advanced: true },
+    "dtmf.levelDbm0": { label: "DTMF Tone Level (dBm0)", advanced: true },
+    "voicemail.policy": { label: "Voicemail Policy" },
+    "voicemail.message": { label: "Voicemail Message" },
+    "consult.enabled": { label: "Mid-Call Questions to Agent" },
+    "consult.timeoutSeconds": { label: "Question Timeout (sec)", advanced: true },
+    "consult.fillerIntervalSeconds": { label: "Hold Filler Interval (sec)", advanced: true },
+    "summary.enabled": { label: "Post-Call Summaries (sends transcripts to OpenAI)" },
+    "summary.model": { label: "Summary Model", advanced: true },
+    "summary.timeoutSeconds": { label: "Summary Timeout (sec)", advanced: true },
+    "storage.retentionDays": { label: "Call History Retention (days)", advanced: true },
+    "storage.maxRecords": { label: "Max Stored Calls", advanced: true },
+    "recording.enabled": { label: "Record Calls" },
+    "recording.retentionDays": { label: "Recording Retention (days)", advanced: true },
+    "recording.maxRecordings": { label: "Max Stored Recordings", advanced: true },
+    "outbound.allowedCountryCodes": { label: "Allowed Country Codes", placeholder: "+1" },
+    "outbound.denyPatterns": { label: "Blocked Number Patterns", advanced: true },
+    "outbound.rateLimit.maxCallsPerNumber": { label: "Max Calls per Number", advanced: true },
+    "outbound.rateLimit.windowMinutes": { label: "Rate Limit Window (min)", advanced: true },
+    "redaction.enabled": { label: "Redact PII" },
+    "redaction.patterns": { label: "Redaction Patterns", advanced: true },
+    "redaction.custom": { label: "Custom Redaction Patterns", advanced: true },
+    "redaction.keepUnredacted": { label: "Keep Unredacted Copy", advanced: true },
+    "consent.disclosure": { label: "Recording Disclosure" },
+    "consent.allowRecordingByDefault": { label: "Allow Recording by Default", advanced: true },
+    "consent.rules": { label: "Recording Consent Rules", advanced: true },
+    "customTools.timeoutSeconds": { label: "Custom Tool Timeout (sec)", advanced: true },
+    "customTools.webhooks": { label: "Webhook Tools", advanced: true },
+    "monitor.enabled": { label: "Live Call Monitoring", advanced: true },
+    "monitor.token": { label: "Monitor Token", sensitive: true, advanced: true },
     debug: { label: "Debug Mode" },
   },
 };
 
 let config: PluginConfig;
+let callStore: CallStore;
+let unredactedCallStore: CallStore | undefined;
+let recordingStore: RecordingStore;
+let outboundPolicy: OutboundPolicy;
 let callManager: CallManager;
 let twilioClient: TwilioClient;
 let server: VoiceServer;
+let resultDispatcher: CallResultDispatcher;
+let scheduler: CallScheduler;
+let consultBroker: AgentConsultBroker;
+let defaultSummarizer: CallSummarizer;
+// Set through setCallSummarizer(); replaces the OpenAI summarizer (e.g. a stub in tests)
+let customSummarizer: CallSummarizer | undefined;
+// Unregister functions for config-defined webhook tools, so re-registering the plugin doesn't collide
+let unregisterWebhookTools: Array<() => void> = [];
 let agentName: string;
+// Original request of each in-flight outbound call, replayed if it is retried
+const callRequests = new Map<string, InitiateCallParams>();
+const outboundQueue = new OutboundQueue();
+let queueTimer: ReturnType<typeof setInterval> | null = null;
+const QUEUE_DRAIN_INTERVAL_MS = 5_000;
 
 interface InitiateCallResult {
   success: boolean;
   callId: string;
   message: string;
   error?: string;
+  scheduleAt?: string;
+  queuePosition?: number;
+  result?: CallResult;
+}
+
+interface ScheduledCallsResult {
+  success: boolean;
+  calls: ScheduledCall[];
+}
+
+interface CancelScheduledResult {
+  success: boolean;
+  message: string;
+  call?: ScheduledCall;
+  error?: string;
+}
+
+interface QueuedCallSummary {
+  callId: string;
+  to: string;
+  task: string;
+  priority: CallPriority;
+  position: number;
+  enqueuedAt: number;
+  waitedSeconds: number;
 }
 
 interface ActiveCallsResult {
@@ -124,6 +364,77 @@ interface ActiveCallsResult {
     status: string;
     task: string;
   }>;
+  queued?: QueuedCallSummary[];
+}
+
+interface QueueStatusResult {
+  enabled: boolean;
+  capacity: number;
+  active: number;
+  maxSize: number;
+  calls: QueuedCallSummary[];
+}
+
+interface GetCallResultResult {
+  success: boolean;
+  message: string;
+  result?: CallResult;
+  scheduled?: ScheduledCall;
+  error?: string;
+}
+
+interface CallHistoryResult {
+  success: boolean;
+  calls: CallSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+  error?: string;
+}
+
+interface ShowCallResult {
+  success: boolean;
+  message: string;
+  call?: CallRecord;
+  error?: string;
+}
+
+interface RecordingsResult {
+  success: boolean;
+  message: string;
+  recordings: RecordingInfo[];
+}
+
+interface FetchRecordingResult {
+  success: boolean;
+  callId: string;
+  message: string;
+  recording?: RecordingInfo;
+  /** The stereo WAV file, base64-encoded. */
+  audioBase64?: string;
+  error?: string;
+}
+
+interface AnswerCallQuestionResult {
+  success: boolean;
+  callId: string;
+  message: string;
+  question?: string;
+  error?: string;
+}
+
+interface InjectMessageResult {
+  success: boolean;
+  callId: string;
+  message: string;
+  error?: string;
+}
+
+interface TransferCallResult {
+  success: boolean;
+  callId: string;
+  message: string;
+  error?: string;
 }
 
 interface InspectCallResult {
@@ -145,9 +456,19 @@ const voiceRealtimePlugin = {
 
   register(api: any) {
     config = voiceRealtimeConfigSchema.parse(api.pluginConfig);
-    callManager = new CallManager();
+    redactor.configure(config.redaction);
+    // Every CLI process registers too; the stores only read until the service starts
+    callStore = new CallStore(config.storage);
+    unredactedCallStore =
+      config.redaction.enabled && config.redaction.keepUnredacted
+        ? new CallStore(config.storage, UNREDACTED_CALLS_FILE)
+        : undefined;
+    callManager = new CallManager(callStore, unredactedCallStore);
     twilioClient = new TwilioClient(config);
     server = new VoiceServer(config, callManager, twilioClient);
+    recordingStore = new RecordingStore(config.recording);
+    outboundPolicy = new OutboundPolicy(config.outbound);
+    server.setRecordingStore(recordingStore);
 
     // Resolve the agent's display name from OpenClaw config
     const agents = api.config?.agents?.list as
@@ -163,16 +484,99 @@ const voiceRealtimePlugin = {
       error: (m: string) => void;
     };
 
+    const notifySession = (sessionKey: string, text: string): boolean => {
+      const system = api.runtime?.system;
+      if (typeof system?.enqueueSystemEvent !== "function") {
+        logger.warn("[voice-rt] OpenClaw runtime does not support session events; message not delivered");
+        return false;
+      }
+      system.enqueueSystemEvent(text, { sessionKey });
+      system.requestHeartbeatNow?.({ reason: "voicecall-rt" });
+      return true;
+    };
+    resultDispatcher = new CallResultDispatcher(notifySession);
+    consultBroker = new AgentConsultBroker(notifySession);
+    server.setConsultBroker(consultBroker);
+    defaultSummarizer = new OpenAICallSummarizer(config.openai.apiKey, config.summary.model);
+
+    for (const unregister of unregisterWebhookTools) unregister();
+    unregisterWebhookTools = config.customTools.webhooks.map((def) => voiceToolRegistry.register(createWebhookTool(def)));
+
+    scheduler = new CallScheduler(async (entry) => {
+      const result = await initiateCall(entry.params, logger, { callId: entry.callId, retry: entry.retry });
+      if (result.success) return { success: true };
+      return {
+        success: false,
+        error: result.error,
+        retryable: result.error === "MAX_CONCURRENT_CALLS" || result.error === "QUEUE_FULL",
+      };
+    });
+
+    // Dial failures such as RATE_LIMITED happen before a CallRecord exists,
+    // so onComplete never fires for them
+    scheduler.setOnFailed((entry) => {
+      const reason = entry.error ?? "unknown error";
+      logger.warn(`[voice-rt] Scheduled call ${entry.callId} could not be dialed: ${reason}`);
+
+      if (entry.retry) {
+        // The previous attempt becomes the final result of the logical call
+        const attempts = callManager.getAttempts(entry.retry.originalCallId);
+        const last = attempts[attempts.length - 1];
+        if (last) {
+          const error = `Retry attempt ${entry.retry.attempt} (${entry.callId}) could not be dialed: ${reason}`;
+          deliverFinalResult({ ...last, error: last.error ? `${last.error}; ${error}` : error }, logger);
+        }
+        return;
+      }
+
+      const sessionKey = entry.params.sessionKey;
+      if (typeof sessionKey === "string" && sessionKey && config.calls.deliverResults) {
+        notifySession(
+          sessionKey,
+          redactor.text(
+            `[voice-rt] Scheduled phone call ${entry.callId} to ${entry.params.to} could not be dialed: ${reason}.\n` +
+              `Task: ${entry.params.task}`
+          )
+        );
+      }
+    });
+
     callManager.setOnComplete((callId, record) => {
       logger.info(
         `[voice-rt] Call ${callId} completed: ${
-          record.outcome?.summary || record.status
+          record.outcome ? redactor.text(record.outcome.summary) : record.status
         }`
       );
+
+      const request = callRequests.get(callId);
+      callRequests.delete(callId);
+      const retryReason = request ? getRetryReason(record, config.calls.retry) : null;
+      if (request && retryReason) {
+        const originalCallId = record.originalCallId ?? callId;
+        const attempt = (record.attempt ?? 1) + 1;
+        const delayMs = getRetryDelayMs(attempt, config.calls.retry);
+        const retryCallId = generateCallId();
+        scheduler.schedule(retryCallId, Date.now() + delayMs, request, { originalCallId, attempt });
+        logger.info(
+          `[voice-rt] Call ${callId} ended with ${retryReason}; retrying as ${retryCallId} ` +
+            `(attempt ${attempt}/${config.calls.retry.maxAttempts}) in ${Math.round(delayMs / 1000)}s`
+        );
+        callManager.cleanup(callId);
+      } else {
+        // The record is persisted by now; later lookups fall back to the call store
+        void summarizeUnreportedCall(record, request?.outcomeSchema, logger).finally(() => {
+          deliverFinalResult(record, logger);
+          callManager.cleanup(callId);
+        });
+      }
+
+      // A line just freed up
+      drainOutboundQueue(logger);
     });
 
-    // Register the make_phone_call tool
-    api.registerTool({
+    // Register the make_phone_call tool. Registered as a factory so each
+    // invocation knows which session placed the call.
+    api.registerTool((ctx: { sessionKey?: string }) => ({
       name: "make_phone_call",
       label: "Make Phone Call",
       description:
@@ -185,7 +589,14 @@ const voiceRealtimePlugin = {
         "and report back with the outcome.",
       parameters: MakePhoneCallParams,
       async execute(_toolCallId: string, params: MakePhoneCallParamsType) {
-        const result = await initiateCall(params, logger);
+        const { waitForResult, waitTimeoutSeconds, ...callParams } = params;
+        let result: InitiateCallResult = await requestCall(
+          { ...callParams, sessionKey: ctx?.sessionKey },
+          logger
+        );
+        if (waitForResult && result.success && !result.scheduleAt) {
+          result = await waitForCallResult(result, waitTimeoutSeconds);
+        }
         return {
           content: [
             { type: "text" as const, text: JSON.stringify(result, null, 2) },
@@ -193,7 +604,65 @@ const voiceRealtimePlugin = {
           details: result,
         };
       },
-    });
+    }), { name: "make_phone_call" });
+
+    // Registered as a factory so a session can only read calls it placed
+    api.registerTool((ctx: { sessionKey?: string }) => ({
+      name: "get_call_result",
+      label: "Get Call Result",
+      description:
+        "Look up a phone call placed earlier by its callId (or Twilio callSid). Returns the call status, " +
+        "answering machine detection result, duration, reported outcome, and full transcript. " +
+        "Works for calls still in progress and for calls from earlier sessions.",
+      parameters: GetCallResultParams,
+      async execute(_toolCallId: string, params: GetCallResultParamsType) {
+        const result = getCallResult(params, "agent", ctx?.sessionKey);
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify(result, null, 2) },
+          ],
+          details: result,
+        };
+      },
+    }), { name: "get_call_result" });
+
+    // Registered as a factory so only the session that placed the call can answer
+    api.registerTool((ctx: { sessionKey?: string }) => ({
+      name: "answer_call_question",
+      label: "Answer Call Question",
+      description:
+        "Answer a question the voice agent asked you during a live phone call (it arrives as a message naming the callId). " +
+        "The other person is waiting on the line, so answer promptly.",
+      parameters: AnswerCallQuestionParams,
+      async execute(_toolCallId: string, params: AnswerCallQuestionParamsType) {
+        const result = answerCallQuestion(params, "agent", ctx?.sessionKey);
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify(result, null, 2) },
+          ],
+          details: result,
+        };
+      },
+    }), { name: "answer_call_question" });
+
+    // Registered as a factory so a session can only cancel calls it placed
+    api.registerTool((ctx: { sessionKey?: string }) => ({
+      name: "cancel_phone_call",
+      label: "Cancel Phone Call",
+      description:
+        "Cancel a phone call you placed with make_phone_call: a scheduled or queued call is dropped before dialing, " +
+        "a ringing call is cancelled, and a call in progress is hung up.",
+      parameters: CancelPhoneCallParams,
+      async execute(_toolCallId: string, params: CancelPhoneCallParamsType) {
+        const result = await hangupCall(hangupDeps(logger), params, "agent", ctx?.sessionKey);
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify(result, null, 2) },
+          ],
+          details: result,
+        };
+      },
+    }), { name: "cancel_phone_call" });
 
     // Gateway method
     api.registerGatewayMethod(
@@ -206,7 +675,8 @@ const voiceRealtimePlugin = {
         respond: (ok: boolean, payload?: unknown) => void;
       }) => {
         try {
-          const result = await initiateCall(params as any, logger);
+          const parsed = parseGatewayCallRequest(params);
+          const result = parsed.ok ? await requestCall(parsed.request, logger) : parsed.result;
           respond(result.success, result);
         } catch (err) {
           respond(false, {
@@ -249,12 +719,30 @@ const voiceRealtimePlugin = {
             status: c.status,
             task: c.task,
           })),
+          queued: listQueuedCalls(),
         });
       }
     );
 
     api.registerGatewayMethod(
-      "voicecall-rt.inspect",
+      "voicecall-rt.queue",
+      async ({
+        respond,
+      }: {
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        respond(true, {
+          enabled: config.calls.queue.enabled,
+          capacity: getOutboundCapacity(),
+          active: callManager.getActiveCalls().length,
+          maxSize: config.calls.queue.maxSize,
+          calls: listQueuedCalls(),
+        });
+      }
+    );
+
+    api.registerGatewayMethod(
+      "voicecall-rt.result",
       async ({
         params,
         respond,
@@ -262,101 +750,687 @@ const voiceRealtimePlugin = {
         params: Record<string, unknown>;
         respond: (ok: boolean, payload?: unknown) => void;
       }) => {
-        const callSid = typeof params.callSid === "string" ? params.callSid : "";
-        const result = await inspectCall({ callSid }, logger);
+        const result = getCallResult({
+          callId: typeof params.callId === "string" ? params.callId : undefined,
+          callSid: typeof params.callSid === "string" ? params.callSid : undefined,
+        }, "operator");
         respond(result.success, result);
       }
     );
 
-    // CLI
-    api.registerCli(
-      ({ program }: { program: any }) => {
-        const root = program
-          .command("voicecall-rt")
-          .description("Voice call commands (OpenAI Realtime)");
-
-        root
-          .command("call")
-          .description("Make an outbound phone call")
-          .requiredOption(
-            "-n, --number <phone>",
-            "Phone number to call (E.164)"
-          )
-          .requiredOption(
-            "-t, --task <description>",
-            "What to accomplish on the call"
-          )
-          .action(async (opts: { number: string; task: string }) => {
-            try {
-              const result = await callGatewayMethodFromCli<InitiateCallResult>(
-                "voicecall-rt.call",
-                { to: opts.number, task: opts.task },
-                45_000
-              );
-              console.log(JSON.stringify(result, null, 2));
-              if (!result.success) process.exitCode = 1;
-            } catch (err) {
-              process.exitCode = 1;
-              console.error(
-                `[voice-rt] Failed to initiate call via gateway: ${err instanceof Error ? err.message : String(err)}`
-              );
-              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
-            }
-          });
+    api.registerGatewayMethod(
+      "voicecall-rt.history",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const result = listCallHistory(params);
+        respond(result.success, result);
+      }
+    );
 
-        root
-          .command("status")
-          .description("Check setup status")
-          .action(async () => {
-            try {
-              const result = await callGatewayMethodFromCli<StatusResult>("voicecall-rt.status", {}, 20_000);
-              console.log(JSON.stringify(result, null, 2));
-              if (result.ready) {
-                console.log("\n✓ All checks passed. Ready to make calls.");
-              } else {
-                console.log("\n✗ Issues found:");
-                for (const issue of result.issues) {
-                  console.log(`  - ${issue}`);
-                }
-              }
-            } catch (err) {
-              process.exitCode = 1;
-              console.error(
-                `[voice-rt] Failed to fetch status via gateway: ${err instanceof Error ? err.message : String(err)}`
-              );
-              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
-            }
-          });
+    api.registerGatewayMethod(
+      "voicecall-rt.show",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const callId = typeof params.callId === "string" ? params.callId.trim() : "";
+        const call = callId ? callManager.findCall(callId.startsWith("CA") ? { callSid: callId } : { callId }) : undefined;
+        const result: ShowCallResult = call
+          ? { success: true, message: `Call ${call.callId}`, call: redactor.record(call) }
+          : { success: false, message: `No call found for ${callId || "(missing callId)"}`, error: "CALL_NOT_FOUND" };
+        respond(result.success, result);
+      }
+    );
 
-        root
-          .command("active")
-          .description("List active calls")
-          .action(async () => {
-            try {
-              const result = await callGatewayMethodFromCli<ActiveCallsResult>("voicecall-rt.active", {}, 20_000);
-              if (result.calls.length === 0) {
-                console.log("No active calls.");
-              } else {
-                for (const call of result.calls) {
-                  console.log(`  ${call.callId}: ${call.to} (${call.status})`);
-                }
-              }
-            } catch (err) {
-              process.exitCode = 1;
-              console.error(
-                `[voice-rt] Failed to fetch active calls via gateway: ${err instanceof Error ? err.message : String(err)}`
-              );
-              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
-            }
-          });
+    api.registerGatewayMethod(
+      "voicecall-rt.recordings",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const result = listRecordings(params);
+        respond(result.success, result);
+      }
+    );
 
-        root
-          .command("inspect")
-          .description("Inspect a Twilio call by SID")
-          .requiredOption("-s, --sid <callSid>", "Twilio Call SID (CA...)")
-          .action(async (opts: { sid: string }) => {
-            try {
-              const result = await callGatewayMethodFromCli<InspectCallResult>(
+    api.registerGatewayMethod(
+      "voicecall-rt.recording",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const result = fetchRecording(params);
+        respond(result.success, result);
+      }
+    );
+
+    api.registerGatewayMethod(
+      "voicecall-rt.scheduled",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const result: ScheduledCallsResult = {
+          success: true,
+          calls: scheduler.list({ includeFinished: params.all === true }),
+        };
+        respond(true, result);
+      }
+    );
+
+    api.registerGatewayMethod(
+      "voicecall-rt.cancel",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const callId = typeof params.callId === "string" ? params.callId.trim() : "";
+        const result = cancelScheduledCall(callId, logger);
+        respond(result.success, result);
+      }
+    );
+
+    api.registerGatewayMethod(
+      "voicecall-rt.hangup",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        try {
+          const result = await hangupCall(hangupDeps(logger), params, "operator");
+          respond(result.success, result);
+        } catch (err) {
+          respond(false, {
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+    );
+
+    api.registerGatewayMethod(
+      "voicecall-rt.answer",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const result = answerCallQuestion(params, "operator");
+        respond(result.success, result);
+      }
+    );
+
+    api.registerGatewayMethod(
+      "voicecall-rt.inject",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const result = injectMessage(params, logger);
+        respond(result.success, result);
+      }
+    );
+
+    api.registerGatewayMethod(
+      "voicecall-rt.transfer",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        try {
+          const result = await transferCall(params, logger);
+          respond(result.success, result);
+        } catch (err) {
+          respond(false, {
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+    );
+
+    api.registerGatewayMethod(
+      "voicecall-rt.inspect",
+      async ({
+        params,
+        respond,
+      }: {
+        params: Record<string, unknown>;
+        respond: (ok: boolean, payload?: unknown) => void;
+      }) => {
+        const callSid = typeof params.callSid === "string" ? params.callSid : "";
+        const result = await inspectCall({ callSid }, logger);
+        respond(result.success, result);
+      }
+    );
+
+    // CLI
+    api.registerCli(
+      ({ program }: { program: any }) => {
+        const root = program
+          .command("voicecall-rt")
+          .description("Voice call commands (OpenAI Realtime)");
+
+        root
+          .command("call")
+          .description("Make an outbound phone call")
+          .requiredOption(
+            "-n, --number <phone>",
+            "Phone number to call (E.164)"
+          )
+          .requiredOption(
+            "-t, --task <description>",
+            "What to accomplish on the call"
+          )
+          .option("-p, --system-prompt <text>", "Instructions for the voice agent")
+          .option(
+            "-f, --system-prompt-file <path>",
+            "Read the voice agent instructions from a file (use - for stdin)"
+          )
+          .option("--voice <voice>", "Voice for this call (overrides openai.voice)")
+          .option("--model <model>", "Realtime model for this call (overrides openai.model)")
+          .option("--vad-type <type>", "VAD type for this call (semantic_vad or server_vad)")
+          .option("--vad-eagerness <level>", "VAD eagerness for this call (low, medium, high, auto)")
+          .option("--max-duration <seconds>", "Max call duration in seconds (up to calls.maxDurationSeconds)")
+          .option("--language <code>", "ISO 639-1 language code to speak on the call (e.g. en, es)")
+          .option("--at <time>", "Schedule the call for later (ISO 8601 time, e.g. 2026-03-02T08:00:00-08:00)")
+          .option("--priority <level>", "Queue priority when all lines are busy (low, normal, high)")
+          .option("--tools <names>", "Comma-separated custom voice tools allowed on this call (default: all)")
+          .option("--outcome-schema <json>", "JSON Schema for the reported outcome details (inline JSON or @file)")
+          .option("--amd", "Enable answering machine detection for this call")
+          .option("--no-amd", "Disable answering machine detection for this call")
+          .option("--voicemail <policy>", "On voicemail: hangup, ai (leave a message from the brief) or message")
+          .option("--voicemail-message <text>", "Message to leave with --voicemail message")
+          .action(
+            async (opts: {
+              number: string;
+              task: string;
+              systemPrompt?: string;
+              systemPromptFile?: string;
+              voice?: string;
+              model?: string;
+              vadType?: string;
+              vadEagerness?: string;
+              maxDuration?: string;
+              language?: string;
+              at?: string;
+              priority?: string;
+              tools?: string;
+              outcomeSchema?: string;
+              amd?: boolean;
+              voicemail?: string;
+              voicemailMessage?: string;
+            }) => {
+              let systemPrompt = opts.systemPrompt;
+              let outcomeSchema: unknown;
+              try {
+                if (opts.outcomeSchema !== undefined) {
+                  const source = opts.outcomeSchema.startsWith("@")
+                    ? readFileSync(opts.outcomeSchema.slice(1), "utf8")
+                    : opts.outcomeSchema;
+                  try {
+                    outcomeSchema = JSON.parse(source);
+                  } catch {
+                    throw new Error("--outcome-schema must be valid JSON");
+                  }
+                }
+                if (opts.systemPromptFile) {
+                  if (systemPrompt) {
+                    throw new Error("Use either --system-prompt or --system-prompt-file, not both");
+                  }
+                  systemPrompt = await readPromptSource(opts.systemPromptFile);
+                }
+              } catch (err) {
+                process.exitCode = 1;
+                console.error(`[voice-rt] ${err instanceof Error ? err.message : String(err)}`);
+                return;
+              }
+
+              try {
+                const result = await callGatewayMethodFromCli<InitiateCallResult>(
+                  "voicecall-rt.call",
+                  {
+                    to: opts.number,
+                    task: opts.task,
+                    systemPrompt,
+                    voice: opts.voice,
+                    model: opts.model,
+                    vadType: opts.vadType,
+                    vadEagerness: opts.vadEagerness,
+                    maxDurationSeconds: opts.maxDuration !== undefined ? Number(opts.maxDuration) : undefined,
+                    language: opts.language,
+                    scheduleAt: opts.at,
+                    priority: opts.priority,
+                    outcomeSchema,
+                    tools:
+                      opts.tools !== undefined
+                        ? opts.tools.split(",").map((name) => name.trim()).filter(Boolean)
+                        : undefined,
+                    enableAmd: opts.amd,
+                    voicemail: opts.voicemail,
+                    voicemailMessage: opts.voicemailMessage,
+                  },
+                  45_000
+                );
+                console.log(JSON.stringify(result, null, 2));
+                if (!result.success) process.exitCode = 1;
+              } catch (err) {
+                process.exitCode = 1;
+                console.error(
+                  `[voice-rt] Failed to initiate call via gateway: ${err instanceof Error ? err.message : String(err)}`
+                );
+                console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+              }
+            }
+          );
+
+        root
+          .command("status")
+          .description("Check setup status")
+          .action(async () => {
+            try {
+              const result = await callGatewayMethodFromCli<StatusResult>("voicecall-rt.status", {}, 20_000);
+              console.log(JSON.stringify(result, null, 2));
+              if (result.ready) {
+                console.log("\n✓ All checks passed. Ready to make calls.");
+              } else {
+                console.log("\n✗ Issues found:");
+                for (const issue of result.issues) {
+                  console.log(`  - ${issue}`);
+                }
+              }
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to fetch status via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("active")
+          .description("List active calls")
+          .action(async () => {
+            try {
+              const result = await callGatewayMethodFromCli<ActiveCallsResult>("voicecall-rt.active", {}, 20_000);
+              if (result.calls.length === 0) {
+                console.log("No active calls.");
+              } else {
+                for (const call of result.calls) {
+                  console.log(`  ${call.callId}: ${call.to} (${call.status})`);
+                }
+              }
+              if (result.queued && result.queued.length > 0) {
+                console.log(`\n${result.queued.length} queued:`);
+                for (const call of result.queued) {
+                  console.log(`  #${call.position} ${call.callId}: ${call.to} (${call.priority}, waiting ${call.waitedSeconds}s)`);
+                }
+              }
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to fetch active calls via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("queue")
+          .description("List outbound calls waiting for a free line")
+          .option("--json", "Print raw JSON")
+          .action(async (opts: { json?: boolean }) => {
+            try {
+              const result = await callGatewayMethodFromCli<QueueStatusResult>("voicecall-rt.queue", {}, 20_000);
+              if (opts.json) {
+                console.log(JSON.stringify(result, null, 2));
+                return;
+              }
+              console.log(
+                `Outbound lines: ${result.active}/${result.capacity} in use. ` +
+                  `Queue ${result.enabled ? `enabled (${result.calls.length}/${result.maxSize})` : "disabled"}.`
+              );
+              for (const call of result.calls) {
+                console.log(`  #${call.position} ${call.callId}  ${call.to}  ${call.priority}  waiting ${call.waitedSeconds}s  ${call.task}`);
+              }
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to fetch call queue via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("history")
+          .description("List past calls from the local call log")
+          .option("--to <phone>", "Only calls to or from this number")
+          .option("--since <time>", "Only calls since an ISO date or relative time (e.g. 24h, 7d)")
+          .option("--status <status>", `Only calls with this status (${CALL_STATUSES.join(", ")})`)
+          .option("--direction <direction>", "Only inbound or outbound calls")
+          .option("--limit <n>", "Maximum number of calls to list", "20")
+          .option("--offset <n>", "Number of calls to skip", "0")
+          .option("--json", "Print raw JSON")
+          .action(
+            async (opts: {
+              to?: string;
+              since?: string;
+              status?: string;
+              direction?: string;
+              limit: string;
+              offset: string;
+              json?: boolean;
+            }) => {
+              try {
+                const result = await callGatewayMethodFromCli<CallHistoryResult>(
+                  "voicecall-rt.history",
+                  {
+                    to: opts.to,
+                    since: opts.since,
+                    status: opts.status,
+                    direction: opts.direction,
+                    limit: Number(opts.limit),
+                    offset: Number(opts.offset),
+                  },
+                  20_000
+                );
+                if (opts.json || !result.success) {
+                  console.log(JSON.stringify(result, null, 2));
+                  if (!result.success) process.exitCode = 1;
+                  return;
+                }
+                if (result.calls.length === 0) {
+                  console.log("No calls found.");
+                  return;
+                }
+                for (const call of result.calls) {
+                  const duration = call.duration !== undefined ? `${call.duration}s` : "-";
+                  const summary = call.summary ? ` — ${call.summary}` : "";
+                  console.log(
+                    `  ${new Date(call.startedAt).toISOString()}  ${call.callId}  ${call.direction}  ${
+                      call.direction === "inbound" ? call.from : call.to
+                    }  ${call.status}  ${duration}${summary}`
+                  );
+                }
+                const shown = result.offset + result.calls.length;
+                if (shown < result.total) {
+                  console.log(`\nShowing ${result.offset + 1}-${shown} of ${result.total}. Use --offset ${shown} for more.`);
+                }
+              } catch (err) {
+                process.exitCode = 1;
+                console.error(
+                  `[voice-rt] Failed to fetch call history via gateway: ${err instanceof Error ? err.message : String(err)}`
+                );
+                console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+              }
+            }
+          );
+
+        root
+          .command("show")
+          .description("Show a call's transcript, AMD result and outcome")
+          .argument("<callId>", "Call ID (or Twilio Call SID)")
+          .option("--json", "Print raw JSON")
+          .action(async (callId: string, opts: { json?: boolean }) => {
+            try {
+              const result = await callGatewayMethodFromCli<ShowCallResult>(
+                "voicecall-rt.show",
+                { callId },
+                20_000
+              );
+              if (opts.json || !result.call) {
+                console.log(JSON.stringify(result, null, 2));
+              } else {
+                console.log(formatCallReport(result.call));
+              }
+              if (!result.success) process.exitCode = 1;
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to fetch call via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("recordings")
+          .description("List saved call recordings")
+          .option("--call <callId>", "Only this call's recording")
+          .option("--limit <n>", "Maximum number of recordings to list", "20")
+          .option("--json", "Print raw JSON")
+          .action(async (opts: { call?: string; limit: string; json?: boolean }) => {
+            try {
+              const result = await callGatewayMethodFromCli<RecordingsResult>(
+                "voicecall-rt.recordings",
+                { callId: opts.call, limit: Number(opts.limit) },
+                20_000
+              );
+              if (opts.json) {
+                console.log(JSON.stringify(result, null, 2));
+              } else if (result.recordings.length === 0) {
+                console.log("No recordings found.");
+              } else {
+                for (const recording of result.recordings) {
+                  console.log(
+                    `  ${new Date(recording.createdAt).toISOString()}  ${recording.callId}  ${recording.durationSeconds}s  ${
+                      Math.round(recording.bytes / 1024)
+                    } KB`
+                  );
+                }
+              }
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to list recordings via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("recording")
+          .description("Download a call's stereo WAV recording")
+          .argument("<callId>", "Call ID (or Twilio Call SID)")
+          .option("--out <file>", "Where to write the WAV (default: <callId>.wav)")
+          .action(async (callId: string, opts: { out?: string }) => {
+            try {
+              const result = await callGatewayMethodFromCli<FetchRecordingResult>(
+                "voicecall-rt.recording",
+                { callId },
+                60_000
+              );
+              if (!result.success || !result.audioBase64) {
+                console.log(JSON.stringify(result, null, 2));
+                process.exitCode = 1;
+                return;
+              }
+              const out = opts.out ?? `${result.callId}.wav`;
+              writeFileSync(out, Buffer.from(result.audioBase64, "base64"), { mode: 0o600 });
+              console.log(`Saved ${result.recording?.durationSeconds ?? "?"}s recording of call ${result.callId} to ${out}`);
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to fetch recording via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("scheduled")
+          .description("List scheduled calls")
+          .option("--all", "Include dialed, failed and cancelled entries")
+          .option("--json", "Print raw JSON")
+          .action(async (opts: { all?: boolean; json?: boolean }) => {
+            try {
+              const result = await callGatewayMethodFromCli<ScheduledCallsResult>(
+                "voicecall-rt.scheduled",
+                { all: opts.all === true },
+                20_000
+              );
+              if (opts.json) {
+                console.log(JSON.stringify(result, null, 2));
+              } else if (result.calls.length === 0) {
+                console.log("No scheduled calls.");
+              } else {
+                for (const call of result.calls) {
+                  const error = call.error ? ` (${call.error})` : "";
+                  console.log(
+                    `  ${call.callId}: ${call.params.to} at ${new Date(call.scheduleAt).toISOString()} [${call.status}]${error} — ${call.params.task}`
+                  );
+                }
+              }
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to fetch scheduled calls via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("cancel")
+          .description("Cancel a scheduled call")
+          .argument("<callId>", "Call ID of the scheduled call")
+          .action(async (callId: string) => {
+            try {
+              const result = await callGatewayMethodFromCli<CancelScheduledResult>(
+                "voicecall-rt.cancel",
+                { callId },
+                20_000
+              );
+              console.log(JSON.stringify(result, null, 2));
+              if (!result.success) process.exitCode = 1;
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to cancel call via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("hangup")
+          .description("Cancel a scheduled, queued or ringing call, or hang up a live one")
+          .argument("<callId>", "Call ID of the call")
+          .option("--reason <text>", "Why the call is being cancelled")
+          .action(async (callId: string, opts: { reason?: string }) => {
+            try {
+              const result = await callGatewayMethodFromCli<HangupCallResult>(
+                "voicecall-rt.hangup",
+                { callId, reason: opts.reason },
+                30_000
+              );
+              console.log(JSON.stringify(result, null, 2));
+              if (!result.success) process.exitCode = 1;
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to hang up call via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        for (const mode of ["say", "instruct"] as const) {
+          const command = root
+            .command(mode)
+            .description(
+              mode === "say"
+                ? "Have the voice agent relay a message to the other person on a live call"
+                : "Give the voice agent an instruction on a live call (not heard by the other person)"
+            )
+            .argument("<callId>", "Call ID of the live call")
+            .argument("<text...>", mode === "say" ? "What to tell the other person" : "Instruction for the voice agent");
+          if (mode === "say") {
+            command.option("--no-respond", "Don't make the voice agent respond right away");
+          } else {
+            command.option("--respond", "Make the voice agent respond right away");
+          }
+          command.action(async (callId: string, words: string[], opts: { respond?: boolean }) => {
+            try {
+              const result = await callGatewayMethodFromCli<InjectMessageResult>(
+                "voicecall-rt.inject",
+                { callId, mode, text: words.join(" "), respond: opts.respond },
+                20_000
+              );
+              console.log(JSON.stringify(result, null, 2));
+              if (!result.success) process.exitCode = 1;
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to inject message via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+        }
+
+        root
+          .command("transfer")
+          .description("Hand a live call over to a person (transfer.target by default)")
+          .argument("<callId>", "Call ID of the live call")
+          .option("--to <target>", "E.164 number or sip: URI to transfer to instead of transfer.target")
+          .option("--reason <text>", "Why the call is being transferred")
+          .action(async (callId: string, opts: { to?: string; reason?: string }) => {
+            try {
+              const result = await callGatewayMethodFromCli<TransferCallResult>(
+                "voicecall-rt.transfer",
+                { callId, target: opts.to, reason: opts.reason },
+                30_000
+              );
+              console.log(JSON.stringify(result, null, 2));
+              if (!result.success) process.exitCode = 1;
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to transfer call via gateway: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
+            }
+          });
+
+        root
+          .command("inspect")
+          .description("Inspect a Twilio call by SID")
+          .requiredOption("-s, --sid <callSid>", "Twilio Call SID (CA...)")
+          .action(async (opts: { sid: string }) => {
+            try {
+              const result = await callGatewayMethodFromCli<InspectCallResult>(
                 "voicecall-rt.inspect",
                 { callSid: opts.sid },
                 20_000
@@ -371,54 +1445,557 @@ const voiceRealtimePlugin = {
               console.error("[voice-rt] Ensure the gateway is running and reachable (`openclaw gateway --force`).");
             }
           });
+
+        root
+          .command("watch")
+          .description("Stream a call's live status, transcript, tool calls and latency")
+          .argument("<callId>", "Call ID")
+          .option("--url <baseUrl>", "Voice server base URL (defaults to the local server)")
+          .option("--token <token>", "Monitor token (defaults to monitor.token)")
+          .option("--json", "Print raw events as JSON lines")
+          .action(async (callId: string, opts: { url?: string; token?: string; json?: boolean }) => {
+            const token = opts.token ?? config.monitor.token;
+            if (!token) {
+              process.exitCode = 1;
+              console.error("[voice-rt] No monitor token. Set monitor.enabled and monitor.token, or pass --token.");
+              return;
+            }
+
+            const baseUrl = (opts.url ?? localServerUrl()).replace(/\/+$/, "");
+            try {
+              await watchCallEvents(`${baseUrl}/monitor/calls/${encodeURIComponent(callId)}/events`, token, (event, data) => {
+                if (opts.json) {
+                  console.log(JSON.stringify({ event, data }));
+                } else if (event === "transcript" && (data as { final?: boolean }).final === false) {
+                  // Partial deltas are for dashboards; the CLI prints finished lines only
+                } else {
+                  console.log(formatCallMonitorEvent(event, data));
+                }
+              });
+            } catch (err) {
+              process.exitCode = 1;
+              console.error(
+                `[voice-rt] Failed to watch call ${callId}: ${err instanceof Error ? err.message : String(err)}`
+              );
+              console.error("[voice-rt] Ensure the voice server is running and monitor.enabled is true.");
+            }
+          });
       },
       { commands: ["voicecall-rt"] }
     );
 
-    // Background service
-    api.registerService({
-      id: "voicecall-rt",
-      async start() {
-        await assertPublicUrlResolvesToPublicIp(config.publicUrl);
-        await server.start();
-        logger.info(
-          `[voice-rt] Server started on ${config.server.bind}:${config.server.port}`
-        );
-      },
-      async stop() {
-        await server.stop();
-        logger.info("[voice-rt] Server stopped");
-      },
-    });
-  },
-};
+    // Background service
+    api.registerService({
+      id: "voicecall-rt",
+      async start() {
+        await assertPublicUrlResolvesToPublicIp(config.publicUrl);
+        await server.start();
+        callStore.compactLog();
+        unredactedCallStore?.compactLog();
+        recordingStore.prune();
+        logger.info(
+          `[voice-rt] Server started on ${config.server.bind}:${config.server.port}`
+        );
+        scheduler.start();
+        queueTimer = setInterval(() => drainOutboundQueue(logger), QUEUE_DRAIN_INTERVAL_MS);
+        queueTimer.unref?.();
+      },
+      async stop() {
+        scheduler.stop();
+        if (queueTimer) clearInterval(queueTimer);
+        queueTimer = null;
+        await server.stop();
+        logger.info("[voice-rt] Server stopped");
+      },
+    });
+  },
+};
+
+type InitiateCallParams = {
+  to: string;
+  task: string;
+  systemPrompt?: string;
+  sessionKey?: string;
+  priority?: CallPriority;
+} & CallOverrides;
+
+/**
+ * Build a call request from voicecall-rt.call params. The sessionKey is never
+ * taken from the RPC caller: it decides which agent session owns the call
+ * (and may cancel it), so gateway calls are operator-owned.
+ */
+function parseGatewayCallRequest(
+  params: Record<string, unknown>
+):
+  | { ok: true; request: InitiateCallParams & { scheduleAt?: unknown; notBefore?: unknown } }
+  | { ok: false; result: InitiateCallResult } {
+  const parsedOverrides = parseCallOverrides(params, config);
+  if (!parsedOverrides.ok) {
+    return {
+      ok: false,
+      result: {
+        success: false,
+        callId: "",
+        message: `Invalid call settings: ${parsedOverrides.error}`,
+        error: "INVALID_CALL_SETTINGS",
+      },
+    };
+  }
+
+  const priority = params.priority ?? undefined;
+  if (priority !== undefined && !(CALL_PRIORITIES as readonly unknown[]).includes(priority)) {
+    return {
+      ok: false,
+      result: {
+        success: false,
+        callId: "",
+        message: `Invalid priority "${String(priority)}". Expected one of: ${CALL_PRIORITIES.join(", ")}`,
+        error: "INVALID_CALL_SETTINGS",
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    request: {
+      to: typeof params.to === "string" ? params.to : "",
+      task: typeof params.task === "string" ? params.task : "",
+      systemPrompt: typeof params.systemPrompt === "string" ? params.systemPrompt : undefined,
+      priority: priority as CallPriority | undefined,
+      scheduleAt: params.scheduleAt,
+      notBefore: params.notBefore,
+      ...parsedOverrides.overrides,
+    },
+  };
+}
+
+/**
+ * Dial now, or store the request for the scheduler if it carries a future
+ * scheduleAt (the gateway also accepts notBefore as an alias).
+ */
+async function requestCall(
+  params: InitiateCallParams & { scheduleAt?: unknown; notBefore?: unknown },
+  logger: { info: (m: string) => void; error: (m: string) => void }
+): Promise<InitiateCallResult> {
+  const rawSchedule = params.scheduleAt ?? params.notBefore;
+  if (rawSchedule === undefined || rawSchedule === null || rawSchedule === "") {
+    return initiateCall(params, logger);
+  }
+
+  const scheduleAt =
+    typeof rawSchedule === "number" ? rawSchedule : typeof rawSchedule === "string" ? Date.parse(rawSchedule) : NaN;
+  if (!Number.isFinite(scheduleAt)) {
+    return {
+      success: false,
+      callId: "",
+      message: `Invalid scheduleAt "${String(rawSchedule)}". Use an ISO 8601 time with timezone offset`,
+      error: "INVALID_SCHEDULE",
+    };
+  }
+  if (scheduleAt > Date.now() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return {
+      success: false,
+      callId: "",
+      message: `Cannot schedule more than ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`,
+      error: "INVALID_SCHEDULE",
+    };
+  }
+  if (scheduleAt <= Date.now()) {
+    return initiateCall(params, logger);
+  }
+
+  const parsedOverrides = parseCallOverrides(params, config);
+  if (!parsedOverrides.ok) {
+    return {
+      success: false,
+      callId: "",
+      message: `Invalid call settings: ${parsedOverrides.error}`,
+      error: "INVALID_CALL_SETTINGS",
+    };
+  }
+
+  const { task, systemPrompt, sessionKey, priority } = params;
+  if (priority !== undefined && !(CALL_PRIORITIES as readonly string[]).includes(priority)) {
+    return {
+      success: false,
+      callId: "",
+      message: `Invalid priority "${String(priority)}". Expected one of: ${CALL_PRIORITIES.join(", ")}`,
+      error: "INVALID_CALL_SETTINGS",
+    };
+  }
+
+  // Rate limits are checked when the call is dialed; reject bad destinations now
+  const destination = outboundPolicy.checkDestination(params.to);
+  if (!destination.ok) {
+    return { success: false, callId: "", message: destination.message, error: destination.error };
+  }
+
+  const callId = generateCallId();
+  const to = destination.to;
+  scheduler.schedule(callId, scheduleAt, { to, task, systemPrompt, sessionKey, priority, ...parsedOverrides.overrides });
+
+  const scheduleAtIso = new Date(scheduleAt).toISOString();
+  logger.info(redactor.text(`[voice-rt] Scheduled call ${callId} to ${to} at ${scheduleAtIso} — task: ${task}`));
+
+  return {
+    success: true,
+    callId,
+    scheduleAt: scheduleAtIso,
+    message: `Call to ${to} scheduled for ${scheduleAtIso}. The result will be delivered when the call finishes. Call ID: ${callId}`,
+  };
+}
+
+/**
+ * Fill in an inferred outcome for a call that ended without report_outcome,
+ * so the delivered result and the stored record still say what happened.
+ */
+async function summarizeUnreportedCall(
+  record: CallRecord,
+  outcomeSchema: Record<string, unknown> | undefined,
+  logger: { info: (m: string) => void; warn: (m: string) => void }
+): Promise<void> {
+  if (record.outcome || !config.summary.enabled) return;
+  try {
+    const outcome = await inferCallOutcome(
+      customSummarizer ?? defaultSummarizer,
+      record,
+      outcomeSchema,
+      config.summary.timeoutSeconds * 1000
+    );
+    // The voice model may still have reported an outcome while we were summarizing
+    if (!outcome || record.outcome) return;
+    callManager.setOutcome(record.callId, outcome);
+    logger.info(`[voice-rt] Inferred outcome for call ${record.callId}: ${redactor.text(outcome.summary)}`);
+  } catch (err) {
+    logger.warn(
+      `[voice-rt] Post-call summary failed for call ${record.callId}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+function deliverFinalResult(record: CallRecord, logger: { info: (m: string) => void }): void {
+  const attempts = callManager.getAttempts(record.originalCallId ?? record.callId);
+  // Blocked waiters are always released; deliverResults only governs the session notification
+  if (resultDispatcher.settle(record, attempts, config.calls.deliverResults)) {
+    logger.info(`[voice-rt] Delivered result of call ${record.originalCallId ?? record.callId} to the calling agent`);
+  }
+}
+
+function cancelScheduledCall(
+  callId: string,
+  logger: { info: (m: string) => void }
+): CancelScheduledResult {
+  const entry = callId ? scheduler.get(callId) : undefined;
+  if (!entry) {
+    return {
+      success: false,
+      message: `No scheduled call found for ${callId || "(missing callId)"}`,
+      error: "CALL_NOT_FOUND",
+    };
+  }
+  if (entry.status !== "pending") {
+    return {
+      success: false,
+      message: `Scheduled call ${callId} is already ${entry.status}`,
+      call: entry,
+      error: "NOT_CANCELLABLE",
+    };
+  }
+
+  scheduler.cancel(callId);
+  logger.info(`[voice-rt] Cancelled scheduled call ${callId}`);
+
+  // Cancelling a pending retry makes the previous attempt the final result
+  if (entry.retry) {
+    const attempts = callManager.getAttempts(entry.retry.originalCallId);
+    const last = attempts[attempts.length - 1];
+    if (last) deliverFinalResult(last, logger);
+  }
+  return { success: true, message: `Cancelled scheduled call ${callId}`, call: entry };
+}
+
+function hangupDeps(logger: { info: (m: string) => void; error: (m: string) => void }): HangupDeps {
+  return {
+    callManager,
+    scheduler,
+    outboundQueue,
+    twilioClient,
+    cancelScheduled: (callId) => cancelScheduledCall(callId, logger),
+    closeCall: (callId) => server.closeCall(callId),
+    logger,
+  };
+}
+
+/**
+ * Operator "say"/"instruct" injection into a live call. "say" responds right
+ * away unless respond is false; "instruct" only responds if asked to.
+ */
+function injectMessage(params: Record<string, unknown>, logger: { info: (m: string) => void }): InjectMessageResult {
+  const callId = typeof params.callId === "string" ? params.callId.trim() : "";
+  const text = typeof params.text === "string" ? params.text.trim() : "";
+  const mode = params.mode === undefined ? "instruct" : params.mode;
+
+  if (mode !== "say" && mode !== "instruct") {
+    return { success: false, callId, message: `Invalid mode "${String(mode)}". Expected say or instruct`, error: "INVALID_INJECTION" };
+  }
+  if (!text) {
+    return { success: false, callId, message: "Missing text", error: "INVALID_INJECTION" };
+  }
+
+  const respond = typeof params.respond === "boolean" ? params.respond : mode === "say";
+  const result = callId ? server.injectMessage(callId, { mode, text, respond }) : undefined;
+  if (!result) {
+    return {
+      success: false,
+      callId,
+      message: `No live call found for ${callId || "(missing callId)"}`,
+      error: "CALL_NOT_FOUND",
+    };
+  }
+
+  if (result.success) logger.info(`[voice-rt] Operator ${mode} on call ${callId}`);
+  return {
+    success: result.success,
+    callId,
+    message: result.message,
+    ...(result.success ? {} : { error: "SESSION_NOT_CONNECTED" }),
+  };
+}
+
+/**
+ * Hand an answer to the voice model's pending ask_agent call. Agent tool
+ * calls pass their sessionKey and may only answer calls that session placed;
+ * calls without one (inbound, CLI, gateway) are operator-only.
+ */
+function answerCallQuestion(
+  params: Record<string, unknown>,
+  requestedBy: CallCancellation["requestedBy"],
+  sessionKey?: string
+): AnswerCallQuestionResult {
+  const callId = typeof params.callId === "string" ? params.callId.trim() : "";
+  const answer = typeof params.answer === "string" ? params.answer.trim() : "";
+  if (!answer) {
+    return { success: false, callId, message: "Missing answer", error: "INVALID_ANSWER" };
+  }
+
+  const record = callId ? callManager.getByCallId(callId) : undefined;
+  const pending = record ? consultBroker.get(callId) : undefined;
+  const notOwner = requestedBy === "agent" && (!record?.sessionKey || record.sessionKey !== sessionKey);
+  if (!record || !pending || notOwner) {
+    return {
+      success: false,
+      callId,
+      message: `No open question from call ${callId || "(missing callId)"}. It may have timed out or the call ended.`,
+      error: "NO_PENDING_QUESTION",
+    };
+  }
+
+  consultBroker.answer(callId, answer);
+  return {
+    success: true,
+    callId,
+    question: pending.question,
+    message: "Answer passed to the voice agent.",
+  };
+}
+
+async function transferCall(
+  params: Record<string, unknown>,
+  logger: { info: (m: string) => void }
+): Promise<TransferCallResult> {
+  const callId = typeof params.callId === "string" ? params.callId.trim() : "";
+  const target = typeof params.target === "string" && params.target.trim() ? params.target.trim() : undefined;
+  const reason = typeof params.reason === "string" ? params.reason : undefined;
+
+  if (!config.transfer.enabled) {
+    return {
+      success: false,
+      callId,
+      message: "Call transfer is disabled (transfer.enabled)",
+      error: "TRANSFER_DISABLED",
+    };
+  }
+  if (target && !TRANSFER_TARGET_PATTERN.test(target)) {
+    return {
+      success: false,
+      callId,
+      message: `Invalid transfer target "${target}". Use an E.164 number or a sip: URI`,
+      error: "INVALID_TRANSFER_TARGET",
+    };
+  }
+  if (!target && !config.transfer.target) {
+    return {
+      success: false,
+      callId,
+      message: "No transfer target: set transfer.target or pass a target",
+      error: "TRANSFER_NOT_CONFIGURED",
+    };
+  }
+
+  // A <Dial> to a number is an outbound call like any other
+  let effectiveTarget = target ?? config.transfer.target!;
+  if (!/^sips?:/i.test(effectiveTarget)) {
+    const destination = outboundPolicy.checkDestination(effectiveTarget);
+    if (!destination.ok) {
+      return { success: false, callId, message: destination.message, error: destination.error };
+    }
+    effectiveTarget = destination.to;
+  }
+
+  const result = callId ? await server.transferCall(callId, { target: effectiveTarget, reason }) : undefined;
+  if (!result) {
+    return {
+      success: false,
+      callId,
+      message: `No live call found for ${callId || "(missing callId)"}`,
+      error: "CALL_NOT_FOUND",
+    };
+  }
+
+  if (result.success) logger.info(`[voice-rt] Operator transferred call ${callId}`);
+  return {
+    success: result.success,
+    callId,
+    message: result.message,
+    ...(result.success ? {} : { error: "TRANSFER_FAILED" }),
+  };
+}
+
+function generateCallId(): string {
+  return `call_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
 
 async function initiateCall(
-  params: { to: string; task: string; systemPrompt?: string },
-  logger: { info: (m: string) => void; error: (m: string) => void }
-): Promise<{
-  success: boolean;
-  callId: string;
-  message: string;
-  error?: string;
-}> {
-  const { to, task, systemPrompt } = params;
+  params: InitiateCallParams,
+  logger: { info: (m: string) => void; error: (m: string) => void },
+  options: { callId?: string; retry?: ScheduledCall["retry"] } = {}
+): Promise<InitiateCallResult> {
+  const { task, systemPrompt, sessionKey } = params;
 
-  // Enforce concurrent call limit
-  const activeCalls = callManager.getActiveCalls();
-  if (activeCalls.length >= config.calls.maxConcurrent) {
+  // Checked before anything else so a blocked number never reaches Twilio
+  const policy = outboundPolicy.check(params.to);
+  if (!policy.ok) {
+    return { success: false, callId: "", message: policy.message, error: policy.error };
+  }
+  const to = policy.to;
+
+  const parsedOverrides = parseCallOverrides(params, config);
+  if (!parsedOverrides.ok) {
+    return {
+      success: false,
+      callId: "",
+      message: `Invalid call settings: ${parsedOverrides.error}`,
+      error: "INVALID_CALL_SETTINGS",
+    };
+  }
+  const settings = resolveCallSettings(config, parsedOverrides.overrides);
+
+  const unknownTools = (settings.tools ?? []).filter((name) => !voiceToolRegistry.has(name));
+  if (unknownTools.length > 0) {
+    return {
+      success: false,
+      callId: "",
+      message:
+        `Invalid call settings: unknown voice tools: ${unknownTools.join(", ")}. ` +
+        `Available: ${voiceToolRegistry.names().join(", ") || "(none)"}`,
+      error: "INVALID_CALL_SETTINGS",
+    };
+  }
+
+  const priority = params.priority ?? "normal";
+  if (!(CALL_PRIORITIES as readonly string[]).includes(priority)) {
     return {
       success: false,
       callId: "",
-      message: `Cannot initiate call: ${activeCalls.length} concurrent calls already active (max ${config.calls.maxConcurrent})`,
-      error: "MAX_CONCURRENT_CALLS",
+      message: `Invalid priority "${String(priority)}". Expected one of: ${CALL_PRIORITIES.join(", ")}`,
+      error: "INVALID_CALL_SETTINGS",
+    };
+  }
+
+  const request: InitiateCallParams = { to, task, systemPrompt, sessionKey, priority, ...parsedOverrides.overrides };
+
+  // Enforce concurrent call limit (minus lines reserved for inbound calls).
+  // With the queue enabled, new calls also wait behind calls already queued.
+  const activeCalls = callManager.getActiveCalls();
+  const capacity = getOutboundCapacity();
+  const linesFull = activeCalls.length >= capacity;
+  if (linesFull || (config.calls.queue.enabled && outboundQueue.size > 0)) {
+    if (!config.calls.queue.enabled) {
+      return {
+        success: false,
+        callId: "",
+        message: `Cannot initiate call: ${activeCalls.length} concurrent calls already active (max ${capacity} outbound)`,
+        error: "MAX_CONCURRENT_CALLS",
+      };
+    }
+    if (outboundQueue.isFull(config.calls.queue.maxSize)) {
+      return {
+        success: false,
+        callId: "",
+        message: `Cannot queue call: outbound queue is full (${config.calls.queue.maxSize} waiting)`,
+        error: "QUEUE_FULL",
+      };
+    }
+
+    const callId = options.callId ?? generateCallId();
+    registerOutboundCall(callId, request, options.retry);
+    callManager.updateStatus(callId, "queued");
+    const position = outboundQueue.enqueue({
+      callId,
+      params: request,
+      settings,
+      priority,
+      enqueuedAt: Date.now(),
+      retry: options.retry,
+    });
+    logger.info(
+      redactor.text(`[voice-rt] Queued call ${callId} to ${to} at position ${position} (priority ${priority}) — task: ${task}`)
+    );
+
+    return {
+      success: true,
+      callId,
+      queuePosition: position,
+      message:
+        `All ${capacity} outbound lines are busy; call to ${to} is queued at position ${position} ` +
+        `and will be dialed when a line frees up (max wait ${config.calls.queue.maxWaitSeconds}s). Call ID: ${callId}`,
     };
   }
 
-  const callId = `call_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-  logger.info(`[voice-rt] Initiating call ${callId} to ${to} — task: ${task}`);
+  const callId = options.callId ?? generateCallId();
+  registerOutboundCall(callId, request, options.retry);
+  return dialOutboundCall(callId, request, settings, logger);
+}
+
+function getOutboundCapacity(): number {
+  return config.calls.maxConcurrent - config.calls.reservedInboundLines;
+}
+
+function registerOutboundCall(callId: string, request: InitiateCallParams, retry?: ScheduledCall["retry"]): void {
+  outboundPolicy.recordAttempt(request.to);
+  callManager.createCall(callId, request.to, config.fromNumber, request.task);
+  if (typeof request.sessionKey === "string" && request.sessionKey) {
+    callManager.setSessionKey(callId, request.sessionKey);
+  }
+  if (retry) {
+    callManager.setAttempt(callId, retry.originalCallId, retry.attempt);
+  }
+}
+
+async function dialOutboundCall(
+  callId: string,
+  request: InitiateCallParams,
+  settings: CallSettings,
+  logger: { info: (m: string) => void; error: (m: string) => void }
+): Promise<InitiateCallResult> {
+  const { to, task, systemPrompt } = request;
+  // Set synchronously so the call counts against the concurrency limit right away
+  callManager.updateStatus(callId, "initiating");
+  callRequests.set(callId, request);
+
+  logger.info(redactor.text(`[voice-rt] Initiating call ${callId} to ${to} — task: ${task}`));
   logger.info(
-    `[voice-rt] Call settings: timeout=${config.calls.timeoutSeconds}s maxDuration=${config.calls.maxDurationSeconds}s amd=${config.calls.enableAmd}`
+    `[voice-rt] Call settings: timeout=${config.calls.timeoutSeconds}s maxDuration=${settings.maxDurationSeconds}s amd=${settings.enableAmd ? config.calls.amdMode : false} voicemail=${settings.voicemail.policy} model=${settings.model} voice=${settings.voice} vad=${settings.vad.type}/${settings.vad.eagerness}`
   );
 
   const callContext: CallContext = {
@@ -426,10 +2003,10 @@ async function initiateCall(
     direction: "outbound",
     agentName,
     systemPrompt: sanitizeSystemPrompt(systemPrompt),
+    settings,
   };
 
   server.setCallContext(callId, callContext);
-  callManager.createCall(callId, to, config.fromNumber, task);
 
   try {
     await assertPublicUrlResolvesToPublicIp(config.publicUrl);
@@ -439,11 +2016,23 @@ async function initiateCall(
       callId,
       publicUrl: config.publicUrl,
       timeoutSeconds: config.calls.timeoutSeconds,
-      enableAmd: config.calls.enableAmd,
-      maxDurationSeconds: config.calls.maxDurationSeconds,
+      enableAmd: settings.enableAmd,
+      detectMessageEnd: settings.voicemail.policy !== "hangup",
+      asyncAmd: config.calls.amdMode === "async",
+      amdTimeoutSeconds: config.calls.amdTimeoutSeconds,
+      maxDurationSeconds: settings.maxDurationSeconds,
     });
 
     callManager.setCallSid(callId, result.callSid);
+    if (callManager.findCall({ callId })?.status === "cancelled") {
+      // Hung up while Twilio was still creating the call
+      await twilioClient.cancel(result.callSid).catch((err) => {
+        logger.error(
+          `[voice-rt] Failed to cancel call ${callId} at Twilio: ${err instanceof Error ? err.message : String(err)}`
+        );
+      });
+      return { success: false, callId, message: `Call ${callId} was cancelled before it connected`, error: "CANCELLED" };
+    }
     callManager.updateStatus(callId, "ringing");
     logger.info(`[voice-rt] Call ${callId} initiated (SID: ${result.callSid})`);
 
@@ -467,6 +2056,212 @@ async function initiateCall(
   }
 }
 
+function listQueuedCalls(): QueuedCallSummary[] {
+  return outboundQueue.list().map((entry, index) => ({
+    callId: entry.callId,
+    to: entry.params.to,
+    task: entry.params.task,
+    priority: entry.priority,
+    position: index + 1,
+    enqueuedAt: entry.enqueuedAt,
+    waitedSeconds: Math.round((Date.now() - entry.enqueuedAt) / 1000),
+  }));
+}
+
+/**
+ * Expire calls that waited too long, then dial queued calls while outbound
+ * lines are free. Runs whenever a call ends and on a timer.
+ */
+function drainOutboundQueue(logger: { info: (m: string) => void; error: (m: string) => void }): void {
+  for (const expired of outboundQueue.takeExpired(config.calls.queue.maxWaitSeconds * 1000)) {
+    logger.info(`[voice-rt] Queued call ${expired.callId} expired after ${config.calls.queue.maxWaitSeconds}s`);
+    callManager.setError(expired.callId, `Waited more than ${config.calls.queue.maxWaitSeconds}s for a free line`);
+    callManager.updateStatus(expired.callId, "failed");
+  }
+
+  while (outboundQueue.size > 0 && callManager.getActiveCalls().length < getOutboundCapacity()) {
+    const next = outboundQueue.dequeue()!;
+    void dialOutboundCall(next.callId, next.params, next.settings, logger);
+  }
+}
+
+async function waitForCallResult(
+  initiated: InitiateCallResult,
+  timeoutSeconds?: number
+): Promise<InitiateCallResult> {
+  const timeout = timeoutSeconds ?? config.calls.timeoutSeconds + config.calls.maxDurationSeconds + 30;
+  const current = callManager.findCall({ callId: initiated.callId });
+  const record: CallRecord | undefined =
+    current && isTerminalStatus(current.status) && !scheduler.findPendingRetry(initiated.callId)
+      ? current
+      : await resultDispatcher.wait(initiated.callId, timeout * 1000);
+
+  if (!record) {
+    return {
+      ...initiated,
+      message: config.calls.deliverResults
+        ? `Call ${initiated.callId} is still in progress after ${timeout}s. The outcome will be delivered to this session when the call ends.`
+        : `Call ${initiated.callId} is still in progress after ${timeout}s. Use get_call_result with this callId to check the outcome later.`,
+    };
+  }
+
+  return {
+    ...initiated,
+    message: `Call ${initiated.callId} finished with status ${record.status}.`,
+    result: toCallResult(record, callManager.getAttempts(initiated.callId)),
+  };
+}
+
+/**
+ * Status, outcome and transcript of a call. Agent tool calls pass their
+ * sessionKey and may only read calls that session placed; calls without one
+ * (inbound, CLI, gateway) are operator-only.
+ */
+function getCallResult(
+  params: { callId?: string; callSid?: string },
+  requestedBy: CallCancellation["requestedBy"],
+  sessionKey?: string
+): GetCallResultResult {
+  const callId = (params.callId || "").trim();
+  const callSid = (params.callSid || "").trim();
+
+  if (!callId && !callSid) {
+    return {
+      success: false,
+      message: "Missing call identifier",
+      error: "Provide callId or callSid",
+    };
+  }
+
+  const record = callManager.findCall(callId ? { callId } : { callSid });
+  const scheduled = !record && callId ? scheduler.get(callId) : undefined;
+  const owner = record?.sessionKey ?? scheduled?.params.sessionKey;
+  if (requestedBy === "agent" && (!owner || owner !== sessionKey)) {
+    return {
+      success: false,
+      message: `No call found for ${callId || callSid}`,
+      error: "CALL_NOT_FOUND",
+    };
+  }
+  if (scheduled) {
+    return {
+      success: true,
+      message:
+        scheduled.status === "pending"
+          ? `Call ${callId} is scheduled for ${new Date(scheduled.scheduleAt).toISOString()}`
+          : `Scheduled call ${callId} is ${scheduled.status}${scheduled.error ? `: ${scheduled.error}` : ""}`,
+      scheduled,
+    };
+  }
+  if (!record) {
+    return {
+      success: false,
+      message: `No call found for ${callId || callSid}`,
+      error: "CALL_NOT_FOUND",
+    };
+  }
+
+  // Report the latest attempt of the logical call this record belongs to
+  const originalCallId = record.originalCallId ?? record.callId;
+  const attempts = callManager.getAttempts(originalCallId);
+  const latest = attempts[attempts.length - 1] ?? record;
+  const pendingRetry = scheduler.findPendingRetry(originalCallId);
+
+  return {
+    success: true,
+    message: pendingRetry
+      ? `Attempt ${latest.attempt ?? 1} ended with ${latest.status}; retry ${pendingRetry.callId} scheduled for ${new Date(pendingRetry.scheduleAt).toISOString()}`
+      : `Call ${latest.callId} is ${latest.status}`,
+    result: toCallResult(latest, attempts),
+    scheduled: pendingRetry,
+  };
+}
+
+function listCallHistory(params: Record<string, unknown>): CallHistoryResult {
+  const fail = (error: string): CallHistoryResult => ({ success: false, calls: [], total: 0, limit: 0, offset: 0, error });
+
+  const status = typeof params.status === "string" && params.status ? params.status : undefined;
+  if (status && !(CALL_STATUSES as readonly string[]).includes(status)) {
+    return fail(`Invalid status "${status}". Expected one of: ${CALL_STATUSES.join(", ")}`);
+  }
+
+  const direction = typeof params.direction === "string" && params.direction ? params.direction : undefined;
+  if (direction && direction !== "inbound" && direction !== "outbound") {
+    return fail(`Invalid direction "${direction}". Expected inbound or outbound`);
+  }
+
+  let since: number | undefined;
+  let until: number | undefined;
+  try {
+    since = parseTimeFilter(params.since);
+    until = parseTimeFilter(params.until);
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+
+  const page = callStore.query({
+    number: typeof params.to === "string" && params.to ? params.to : undefined,
+    status: status as CallRecord["status"] | undefined,
+    direction: direction as CallRecord["direction"] | undefined,
+    since,
+    until,
+    limit: typeof params.limit === "number" && Number.isFinite(params.limit) ? params.limit : undefined,
+    offset: typeof params.offset === "number" && Number.isFinite(params.offset) ? params.offset : undefined,
+  });
+
+  return {
+    success: true,
+    calls: page.records.map(toCallSummary),
+    total: page.total,
+    limit: page.limit,
+    offset: page.offset,
+  };
+}
+
+function listRecordings(params: Record<string, unknown>): RecordingsResult {
+  const callId = typeof params.callId === "string" && params.callId.trim() ? resolveCallId(params.callId.trim()) : undefined;
+  const limit = typeof params.limit === "number" && params.limit > 0 ? Math.floor(params.limit) : 20;
+  const recordings = recordingStore.list().filter((r) => !callId || r.callId === callId);
+  return {
+    success: true,
+    message: `${recordings.length} recording${recordings.length === 1 ? "" : "s"}`,
+    recordings: recordings.slice(0, limit),
+  };
+}
+
+function fetchRecording(params: Record<string, unknown>): FetchRecordingResult {
+  const requested = typeof params.callId === "string" ? params.callId.trim() : "";
+  if (!requested) {
+    return { success: false, callId: "", message: "callId is required", error: "MISSING_CALL_ID" };
+  }
+
+  const callId = resolveCallId(requested);
+  const recording = recordingStore.get(callId);
+  const audio = recording ? recordingStore.read(callId) : undefined;
+  if (!recording || !audio) {
+    return {
+      success: false,
+      callId,
+      message: config.recording.enabled
+        ? `No recording found for call ${callId}`
+        : `No recording found for call ${callId} (recording.enabled is off)`,
+      error: "RECORDING_NOT_FOUND",
+    };
+  }
+  return {
+    success: true,
+    callId,
+    message: `Recording of call ${callId} (${recording.durationSeconds}s)`,
+    recording,
+    audioBase64: audio.toString("base64"),
+  };
+}
+
+/** Map a Twilio Call SID to our callId; anything else is taken as a callId. */
+function resolveCallId(id: string): string {
+  return id.startsWith("CA") ? (callManager.findCall({ callSid: id })?.callId ?? id) : id;
+}
+
 async function inspectCall(
   params: { callSid: string },
   logger: { info: (m: string) => void; error: (m: string) => void }
@@ -514,6 +2309,23 @@ async function inspectCall(
 
 export default voiceRealtimePlugin;
 
+// Other plugins add function tools for the voice model through this registry
+export {
+  VoiceToolError,
+  VoiceToolRegistry,
+  voiceToolRegistry,
+  type VoiceToolContext,
+  type VoiceToolDefinition,
+} from "./src/voice-tools.ts";
+
+// Post-call summaries are pluggable, e.g. a local stub in tests
+export type { CallSummarizer, PostCallSummary, PostCallSummaryRequest } from "./src/call-summarizer.ts";
+
+/** Replace the post-call summarizer; pass undefined to restore the OpenAI default. */
+export function setCallSummarizer(summarizer: CallSummarizer | undefined): void {
+  customSummarizer = summarizer;
+}
+
 async function callGatewayMethodFromCli<T>(
   method: string,
   params: Record<string, unknown>,
@@ -551,6 +2363,69 @@ async function callGatewayMethodFromCli<T>(
   return parsed as T;
 }
 
+function localServerUrl(): string {
+  const { bind, port } = config.server;
+  const host = bind === "0.0.0.0" || bind === "::" ? "127.0.0.1" : bind.includes(":") ? `[${bind}]` : bind;
+  return `http://${host}:${port}`;
+}
+
+/**
+ * Read a server-sent event stream until the server closes it, passing each
+ * event's name and parsed JSON data to onEvent.
+ */
+async function watchCallEvents(
+  url: string,
+  token: string,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  const res = await fetch(url, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "text/event-stream" },
+  });
+  if (!res.ok || !res.body) {
+    throw new Error(`HTTP ${res.status} ${(await res.text().catch(() => "")).trim() || res.statusText}`);
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length === 0) continue; // keep-alive comment
+
+      const raw = dataLines.join("\n");
+      let data: unknown = raw;
+      try {
+        data = JSON.parse(raw);
+      } catch {
+        // Pass non-JSON data through as text
+      }
+      onEvent(event, data);
+    }
+  }
+}
+
+async function readPromptSource(source: string): Promise<string> {
+  if (source !== "-") {
+    return readFileSync(source, "utf8");
+  }
+
+  let text = "";
+  for await (const chunk of process.stdin) {
+    text += chunk.toString();
+  }
+  return text;
+}
+
 function runOpenclawCli(
   args: string[],
   timeoutMs: number
@@ -0,0 +1,80 @@
+import type { CallRecord } from "./call-manager.ts";
+
+/**
+ * Live events for a single call, streamed to operators watching it.
+ */
+export type CallMonitorEvent = { callId: string; ts: number } & (
+  | { type: "status"; status: CallRecord["status"] }
+  | { type: "transcript"; role: string; text: string; final: boolean }
+  | { type: "tool"; name: string; args: Record<string, unknown>; result: string }
+  | { type: "latency"; metric: "speech_to_response"; ms: number }
+);
+
+type Listener = (event: CallMonitorEvent) => void;
+
+/**
+ * In-process pub/sub of live call events, keyed by callId.
+ *
+ * Emitting is cheap when nobody is watching, so the bridge and call manager
+ * can publish every transcript delta unconditionally.
+ */
+export class CallEventBus {
+  private listeners = new Map<string, Set<Listener>>();
+
+  /** Subscribe to one call's events. Returns an unsubscribe function. */
+  subscribe(callId: string, listener: Listener): () => void {
+    const set = this.listeners.get(callId) ?? new Set<Listener>();
+    set.add(listener);
+    this.listeners.set(callId, set);
+
+    return () => {
+      set.delete(listener);
+      if (set.size === 0 && this.listeners.get(callId) === set) this.listeners.delete(callId);
+    };
+  }
+
+  emit(event: CallMonitorEvent): void {
+    const set = this.listeners.get(event.callId);
+    if (!set) return;
+    for (const listener of [...set]) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error(
+          `[openclaw-voice-gpt-realtime] Call event listener failed for ${event.callId}: ${
+            err instanceof Error ? err.message : String(err)
+          }`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Render one server-sent monitor event as a line of CLI output.
+ */
+export function formatCallMonitorEvent(event: string, data: unknown): string {
+  const d = (data ?? {}) as Record<string, unknown>;
+  const time = new Date(typeof d.ts === "number" ? d.ts : Date.now()).toISOString().slice(11, 19);
+
+  switch (event) {
+    case "snapshot": {
+      const transcript = Array.isArray(d.transcript) ? (d.transcript as Array<{ role: string; text: string }>) : [];
+      const lines = [`Watching ${d.direction} call ${d.callId} to ${d.to} (${d.status}) — ${d.task}`];
+      for (const entry of transcript) lines.push(`  ${entry.role}: ${entry.text}`);
+      return lines.join("\n");
+    }
+    case "status":
+      return `[${time}] status → ${d.status}`;
+    case "transcript":
+      return d.final ? `[${time}] ${d.role}: ${d.text}` : `[${time}] ${d.role} …${d.text}`;
+    case "tool":
+      return `[${time}] tool ${d.name}(${JSON.stringify(d.args)}) → ${d.result}`;
+    case "latency":
+      return `[${time}] latency ${d.metric}: ${d.ms}ms`;
+    case "end":
+      return `Call ${d.callId} ended (${d.status}).`;
+    default:
+      return `[${time}] ${event} ${JSON.stringify(data)}`;
+  }
+}
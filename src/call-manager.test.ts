@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CallManager, type CallRecord } from "./call-manager.ts";
+import { CallStore } from "./call-store.ts";
+
+let dir: string;
+let store: CallStore;
+let unredactedStore: CallStore;
+let manager: CallManager;
+let completed: CallRecord[];
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "voice-rt-manager-"));
+  store = new CallStore({ retentionDays: 90, maxRecords: 5000 }, join(dir, "calls.jsonl"));
+  unredactedStore = new CallStore({ retentionDays: 90, maxRecords: 5000 }, join(dir, "calls-unredacted.jsonl"));
+  manager = new CallManager(store, unredactedStore);
+  completed = [];
+  manager.setOnComplete((_callId, record) => completed.push(record));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function finishCall(callId: string, callSid: string): void {
+  manager.createCall(callId, "+14155551234", "+14155550000", "Check opening hours");
+  manager.setCallSid(callId, callSid);
+  manager.updateStatus(callId, "in-progress");
+  manager.addTranscript(callId, "assistant", "Are you open today?");
+  manager.updateStatus(callId, "completed");
+}
+
+describe("CallManager", () => {
+  test("persists a call once it reaches a terminal status", () => {
+    finishCall("call-1", "CA1");
+
+    expect(completed.map((r) => r.callId)).toEqual(["call-1"]);
+    expect(store.get("call-1")?.status).toBe("completed");
+    expect(store.get("call-1")?.transcript.map((e) => e.text)).toEqual(["Are you open today?"]);
+  });
+
+  test("ignores status updates after the first terminal one", () => {
+    finishCall("call-1", "CA1");
+    manager.updateStatus("call-1", "failed");
+
+    expect(manager.getByCallId("call-1")?.status).toBe("completed");
+    expect(completed).toHaveLength(1);
+  });
+
+  test("an evicted call is gone from memory but can still be looked up", () => {
+    finishCall("call-1", "CA1");
+    manager.cleanup("call-1");
+
+    expect(manager.getByCallId("call-1")).toBeUndefined();
+    expect(manager.getByCallSid("CA1")).toBeUndefined();
+    expect(manager.getActiveCalls()).toEqual([]);
+
+    expect(manager.findCall({ callId: "call-1" })?.status).toBe("completed");
+    expect(manager.findCall({ callSid: "CA1" })?.callId).toBe("call-1");
+    expect(manager.getAttempts("call-1").map((r) => r.callId)).toEqual(["call-1"]);
+  });
+
+  test("an outcome set after eviction updates the stored records", () => {
+    finishCall("call-1", "CA1");
+    manager.cleanup("call-1");
+    manager.setOutcome("call-1", { success: true, summary: "Open until 9pm", inferred: true });
+
+    expect(manager.findCall({ callId: "call-1" })?.outcome).toEqual({
+      success: true,
+      summary: "Open until 9pm",
+      inferred: true,
+    });
+    expect(unredactedStore.get("call-1")?.outcome?.summary).toBe("Open until 9pm");
+    expect(manager.getByCallId("call-1")).toBeUndefined();
+  });
+
+  test("an outcome set after hangup but before eviction is persisted", () => {
+    finishCall("call-1", "CA1");
+    manager.setOutcome("call-1", { success: false, summary: "No answer from the front desk" });
+
+    expect(store.get("call-1")?.outcome?.summary).toBe("No answer from the front desk");
+  });
+
+  test("ignores outcomes for unknown calls", () => {
+    manager.setOutcome("missing", { success: true, summary: "x" });
+    expect(manager.findCall({ callId: "missing" })).toBeUndefined();
+  });
+
+  test("lists retry attempts from memory and the store, oldest first", () => {
+    finishCall("call-1", "CA1");
+    manager.cleanup("call-1");
+    manager.createCall("call-2", "+14155551234", "+14155550000", "Check opening hours");
+    manager.setAttempt("call-2", "call-1", 2);
+
+    expect(manager.getAttempts("call-1").map((r) => [r.callId, r.status])).toEqual([
+      ["call-1", "completed"],
+      ["call-2", "initiating"],
+    ]);
+  });
+});
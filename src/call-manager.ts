@@ -1,8 +1,9 @@
-import { mkdirSync, appendFileSync } from "node:fs";
-import { join } from "node:path";
-import { homedir } from "node:os";
-const DATA_DIR = join(homedir(), ".openclaw", "voice-calls-realtime");
-const CALLS_FILE = join(DATA_DIR, "calls.jsonl");
+import type { CallStore } from "./call-store.ts";
+import { CallEventBus } from "./call-events.ts";
+import { redactor } from "./redaction.ts";
+import type { OutcomeValidation } from "./outcome-schema.ts";
+
+export const CALL_STATUSES = ["queued", "initiating", "ringing", "in-progress", "completed", "failed", "no-answer", "busy", "cancelled"] as const;
 
 export interface CallRecord {
   callId: string;
@@ -11,22 +12,81 @@ export interface CallRecord {
   from: string;
   task: string;
   direction: "outbound" | "inbound";
-  status: "initiating" | "ringing" | "in-progress" | "completed" | "failed" | "no-answer" | "busy";
+  status: (typeof CALL_STATUSES)[number];
   startedAt: number;
   answeredAt?: number;
   endedAt?: number;
   duration?: number;
   amdResult?: string;
   transcript: Array<{ role: string; text: string; ts: number }>;
+  toolCalls?: ToolCallEntry[];
   outcome?: CallOutcome;
   error?: string;
   streamSid?: string;
+  /** OpenClaw session that placed the call; the final result is delivered there. */
+  sessionKey?: string;
+  /** First attempt's callId when this call is an automatic retry. */
+  originalCallId?: string;
+  /** 1-based attempt number within the logical call. */
+  attempt?: number;
+  /** Set once the call has been handed off to a person. */
+  transfer?: CallTransfer;
+  /** Recording decision and disclosure for this call. */
+  consent?: CallConsent;
+  /** Set when an operator or agent cancelled or hung up the call. */
+  cancellation?: CallCancellation;
+}
+
+export interface CallCancellation {
+  requestedBy: "operator" | "agent";
+  reason?: string;
+  /** Status the call was in when it was cancelled. */
+  fromStatus: CallRecord["status"];
+  at: number;
+}
+
+export interface CallConsent {
+  /** Whether the call's audio was recorded (recording.enabled or debug mode). */
+  recorded: boolean;
+  /** False when a consent rule forbade recording for this number. */
+  recordingAllowed: boolean;
+  /** Prefix of the consent rule that decided recordingAllowed. */
+  rule?: string;
+  /** Whether the recording disclosure was spoken to the other party. */
+  disclosed: boolean;
+  disclosedAt?: number;
+}
+
+export interface CallTransfer {
+  target: string;
+  reason?: string;
+  requestedBy: "model" | "operator";
+  at: number;
+}
+
+export interface ToolCallEntry {
+  name: string;
+  args: Record<string, unknown>;
+  result: string;
+  ts: number;
 }
 
 export interface CallOutcome {
   success: boolean;
   summary: string;
   details?: Record<string, unknown>;
+  /** Present when the call had an outcomeSchema; flags missing or malformed details. */
+  validation?: OutcomeValidation;
+  /** Set when the outcome was reconstructed from the transcript after the call, not reported by the voice model. */
+  inferred?: boolean;
+  /** Set when the call reached voicemail and a message was left. */
+  voicemailLeft?: boolean;
+}
+
+export function isTerminalStatus(status: CallRecord["status"]): boolean {
+  return (
+    status === "completed" || status === "failed" || status === "no-answer" || status === "busy" || status === "cancelled"
+  );
 }
 
 type CallEventCallback = (callId: string, record: CallRecord) => void;
@@ -36,9 +96,14 @@ export class CallManager {
   private sidToCallId = new Map<string, string>();
   private streamSidToCallId = new Map<string, string>();
   private onComplete?: CallEventCallback;
+  private store: CallStore;
+  private unredactedStore?: CallStore;
+  /** Live status, transcript, and tool events for call monitoring. */
+  readonly events = new CallEventBus();
 
-  constructor() {
-    mkdirSync(DATA_DIR, { recursive: true, mode: 0o700 });
+  constructor(store: CallStore, unredactedStore?: CallStore) {
+    this.store = store;
+    this.unredactedStore = unredactedStore;
   }
 
   setOnComplete(cb: CallEventCallback): void {
@@ -68,6 +133,21 @@ export class CallManager {
     }
   }
 
+  setSessionKey(callId: string, sessionKey: string): void {
+    const record = this.calls.get(callId);
+    if (record) {
+      record.sessionKey = sessionKey;
+    }
+  }
+
+  setAttempt(callId: string, originalCallId: string, attempt: number): void {
+    const record = this.calls.get(callId);
+    if (record) {
+      record.originalCallId = originalCallId;
+      record.attempt = attempt;
+    }
+  }
+
   setStreamSid(callId: string, streamSid: string): void {
     const record = this.calls.get(callId);
     if (record) {
@@ -94,13 +174,20 @@ export class CallManager {
     const record = this.calls.get(callId);
     if (!record) return;
 
+    // Twilio's status callback often arrives after the bridge has already
+    // finalized the call; only the first terminal transition counts.
+    if (isTerminalStatus(record.status)) return;
+
+    const changed = record.status !== status;
     record.status = status;
 
     if (status === "in-progress" && !record.answeredAt) {
       record.answeredAt = Date.now();
     }
 
-    if (status === "completed" || status === "failed" || status === "no-answer" || status === "busy") {
+    if (changed) this.events.emit({ type: "status", callId, ts: Date.now(), status });
+
+    if (isTerminalStatus(status)) {
       record.endedAt = Date.now();
       if (record.answeredAt) {
         record.duration = Math.floor((record.endedAt - record.answeredAt) / 1000);
@@ -120,7 +207,19 @@ export class CallManager {
   addTranscript(callId: string, role: string, text: string): void {
     const record = this.calls.get(callId);
     if (record) {
-      record.transcript.push({ role, text, ts: Date.now() });
+      const ts = Date.now();
+      record.transcript.push({ role, text, ts });
+      this.events.emit({ type: "transcript", callId, ts, role, text, final: true });
+    }
+  }
+
+  addToolCall(callId: string, name: string, args: Record<string, unknown>, result: string): void {
+    const record = this.calls.get(callId);
+    if (record) {
+      record.toolCalls ??= [];
+      const ts = Date.now();
+      record.toolCalls.push({ name, args, result, ts });
+      this.events.emit({ type: "tool", callId, ts, name, args, result });
     }
   }
 
@@ -128,6 +227,44 @@ export class CallManager {
     const record = this.calls.get(callId);
     if (record) {
       record.outcome = outcome;
+      // An outcome reported after hangup still needs to reach the store
+      if (isTerminalStatus(record.status)) this.persist(record);
+      return;
+    }
+
+    // Already evicted: update the stored copies instead
+    const stored = this.store.get(callId);
+    if (stored) this.store.save(redactor.record({ ...stored, outcome }));
+    const unredacted = this.unredactedStore?.get(callId);
+    if (unredacted) this.unredactedStore?.save({ ...unredacted, outcome });
+  }
+
+  setTransfer(callId: string, transfer: CallTransfer | undefined): void {
+    const record = this.calls.get(callId);
+    if (record) {
+      record.transfer = transfer;
+    }
+  }
+
+  setCancellation(callId: string, cancellation: CallCancellation | undefined): void {
+    const record = this.calls.get(callId);
+    if (record) {
+      record.cancellation = cancellation;
+    }
+  }
+
+  setConsent(callId: string, consent: CallConsent): void {
+    const record = this.calls.get(callId);
+    if (record) {
+      record.consent = consent;
+    }
+  }
+
+  markConsentDisclosed(callId: string): void {
+    const record = this.calls.get(callId);
+    if (record?.consent) {
+      record.consent.disclosed = true;
+      record.consent.disclosedAt = Date.now();
     }
   }
 
@@ -138,6 +275,10 @@ export class CallManager {
     }
   }
 
+  /**
+   * Drop a call from memory. Finished calls are evicted once persisted and
+   * delivered; lookups then fall back to the call store.
+   */
   cleanup(callId: string): void {
     const record = this.calls.get(callId);
     if (record) {
@@ -147,6 +288,28 @@ export class CallManager {
     }
   }
 
+  /**
+   * Look up a call by callId or callSid, falling back to the call store for
+   * calls that are no longer held in memory (e.g. from earlier sessions).
+   */
+  findCall(query: { callId?: string; callSid?: string }): CallRecord | undefined {
+    if (query.callId) return this.getByCallId(query.callId) ?? this.store.get(query.callId);
+    if (query.callSid) return this.getByCallSid(query.callSid) ?? this.store.getByCallSid(query.callSid);
+    return undefined;
+  }
+
+  /**
+   * All attempts of a logical call (the original plus any retries), oldest first.
+   */
+  getAttempts(originalCallId: string): CallRecord[] {
+    const byId = new Map<string, CallRecord>();
+    for (const record of this.store.getAttempts(originalCallId)) byId.set(record.callId, record);
+    for (const record of this.calls.values()) {
+      if (record.callId === originalCallId || record.originalCallId === originalCallId) byId.set(record.callId, record);
+    }
+    return Array.from(byId.values()).sort((a, b) => (a.attempt ?? 1) - (b.attempt ?? 1));
+  }
+
   getActiveCalls(): CallRecord[] {
     return Array.from(this.calls.values()).filter(
       (r) => r.status === "initiating" || r.status === "ringing" || r.status === "in-progress"
@@ -154,23 +317,7 @@ export class CallManager {
   }
 
   private persist(record: CallRecord): void {
-    const line = JSON.stringify({
-      callId: record.callId,
-      callSid: record.callSid,
-      to: record.to,
-      from: record.from,
-      task: record.task,
-      direction: record.direction,
-      status: record.status,
-      startedAt: record.startedAt,
-      answeredAt: record.answeredAt,
-      endedAt: record.endedAt,
-      duration: record.duration,
-      amdResult: record.amdResult,
-      outcome: record.outcome,
-      transcriptLength: record.transcript.length,
-      error: record.error,
-    });
-    appendFileSync(CALLS_FILE, line + "\n", { mode: 0o600 });
+    this.store.save(redactor.record(record));
+    this.unredactedStore?.save(record);
   }
 }
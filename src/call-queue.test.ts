@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, test, setSystemTime } from "bun:test";
+import { OutboundQueue, type CallPriority, type QueuedCall } from "./call-queue.ts";
+import type { CallSettings } from "./config.ts";
+
+function queued(callId: string, priority: CallPriority = "normal", enqueuedAt = Date.now()): QueuedCall {
+  return {
+    callId,
+    params: { to: "+14155551234", task: "Check opening hours" },
+    // The queue never reads the settings, it only carries them to dial time
+    settings: {} as CallSettings,
+    priority,
+    enqueuedAt,
+  };
+}
+
+function order(queue: OutboundQueue): string[] {
+  return queue.list().map((entry) => entry.callId);
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("OutboundQueue", () => {
+  test("dequeues first-come-first-served within a priority", () => {
+    const queue = new OutboundQueue();
+    expect(queue.enqueue(queued("a"))).toBe(1);
+    expect(queue.enqueue(queued("b"))).toBe(2);
+    expect(queue.enqueue(queued("c"))).toBe(3);
+
+    expect(queue.dequeue()?.callId).toBe("a");
+    expect(queue.dequeue()?.callId).toBe("b");
+    expect(queue.dequeue()?.callId).toBe("c");
+    expect(queue.dequeue()).toBeUndefined();
+  });
+
+  test("orders by priority, then arrival", () => {
+    const queue = new OutboundQueue();
+    queue.enqueue(queued("normal-1"));
+    queue.enqueue(queued("low-1", "low"));
+    expect(queue.enqueue(queued("high-1", "high"))).toBe(1);
+    expect(queue.enqueue(queued("normal-2"))).toBe(3);
+    expect(queue.enqueue(queued("high-2", "high"))).toBe(2);
+    queue.enqueue(queued("low-2", "low"));
+
+    expect(order(queue)).toEqual(["high-1", "high-2", "normal-1", "normal-2", "low-1", "low-2"]);
+  });
+
+  test("reports when it holds maxSize calls", () => {
+    const queue = new OutboundQueue();
+    expect(queue.isFull(2)).toBe(false);
+    queue.enqueue(queued("a"));
+    expect(queue.isFull(2)).toBe(false);
+    queue.enqueue(queued("b"));
+    expect(queue.isFull(2)).toBe(true);
+    expect(queue.size).toBe(2);
+
+    queue.dequeue();
+    expect(queue.isFull(2)).toBe(false);
+  });
+
+  test("removes a call by callId", () => {
+    const queue = new OutboundQueue();
+    queue.enqueue(queued("a"));
+    queue.enqueue(queued("b"));
+
+    expect(queue.remove("a")?.callId).toBe("a");
+    expect(queue.remove("a")).toBeUndefined();
+    expect(order(queue)).toEqual(["b"]);
+  });
+
+  test("takes calls that waited longer than maxWaitMs and keeps the rest in order", () => {
+    setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    const now = Date.now();
+    const queue = new OutboundQueue();
+    queue.enqueue(queued("old", "high", now - 120_000));
+    queue.enqueue(queued("fresh-high", "high", now - 1_000));
+    queue.enqueue(queued("fresh-low", "low", now));
+
+    expect(queue.takeExpired(60_000).map((entry) => entry.callId)).toEqual(["old"]);
+    expect(order(queue)).toEqual(["fresh-high", "fresh-low"]);
+    expect(queue.takeExpired(60_000)).toEqual([]);
+  });
+
+  test("list returns a copy", () => {
+    const queue = new OutboundQueue();
+    queue.enqueue(queued("a"));
+    queue.list().pop();
+    expect(queue.size).toBe(1);
+  });
+});
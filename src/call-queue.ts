@@ -0,0 +1,71 @@
+import type { CallSettings } from "./config.ts";
+
+export const CALL_PRIORITIES = ["low", "normal", "high"] as const;
+
+export type CallPriority = (typeof CALL_PRIORITIES)[number];
+
+const PRIORITY_RANK: Record<CallPriority, number> = { low: 0, normal: 1, high: 2 };
+
+export interface QueuedCall {
+  callId: string;
+  /** Call request (to, task, prompt, overrides) to dial once a line frees up. */
+  params: Record<string, unknown> & { to: string; task: string };
+  settings: CallSettings;
+  priority: CallPriority;
+  enqueuedAt: number;
+  retry?: { originalCallId: string; attempt: number };
+}
+
+/**
+ * In-memory queue of outbound calls waiting for a free line.
+ *
+ * Ordered by priority, then first-come-first-served within a priority.
+ */
+export class OutboundQueue {
+  private entries: QueuedCall[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** Whether the queue already holds maxSize calls; enqueue() itself never refuses. */
+  isFull(maxSize: number): boolean {
+    return this.entries.length >= maxSize;
+  }
+
+  /** Add a call and return its 1-based position in the queue. */
+  enqueue(entry: QueuedCall): number {
+    const rank = PRIORITY_RANK[entry.priority];
+    const index = this.entries.findIndex((e) => PRIORITY_RANK[e.priority] < rank);
+    if (index === -1) {
+      this.entries.push(entry);
+      return this.entries.length;
+    }
+    this.entries.splice(index, 0, entry);
+    return index + 1;
+  }
+
+  dequeue(): QueuedCall | undefined {
+    return this.entries.shift();
+  }
+
+  remove(callId: string): QueuedCall | undefined {
+    const index = this.entries.findIndex((e) => e.callId === callId);
+    if (index === -1) return undefined;
+    return this.entries.splice(index, 1)[0];
+  }
+
+  /** Remove and return every call that has waited longer than maxWaitMs. */
+  takeExpired(maxWaitMs: number): QueuedCall[] {
+    const cutoff = Date.now() - maxWaitMs;
+    const expired = this.entries.filter((e) => e.enqueuedAt < cutoff);
+    if (expired.length > 0) {
+      this.entries = this.entries.filter((e) => e.enqueuedAt >= cutoff);
+    }
+    return expired;
+  }
+
+  list(): QueuedCall[] {
+    return [...this.entries];
+  }
+}
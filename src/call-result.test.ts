@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from "bun:test";
+import type { CallRecord } from "./call-manager.ts";
+import { CallResultDispatcher, formatCallResultMessage } from "./call-result.ts";
+
+function finished(overrides: Partial<CallRecord> = {}): CallRecord {
+  return {
+    callId: "call-1",
+    to: "+14155551234",
+    from: "+14155550000",
+    task: "Check opening hours",
+    direction: "outbound",
+    status: "completed",
+    startedAt: 0,
+    duration: 42,
+    transcript: [{ role: "assistant", text: "Are you open today?", ts: 1000 }],
+    outcome: { success: true, summary: "Open until 9pm" },
+    sessionKey: "agent:main",
+    ...overrides,
+  };
+}
+
+function createDispatcher() {
+  const notified: Array<{ sessionKey: string; text: string }> = [];
+  const dispatcher = new CallResultDispatcher((sessionKey, text) => {
+    notified.push({ sessionKey, text });
+    return true;
+  });
+  return { dispatcher, notified };
+}
+
+describe("CallResultDispatcher", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("hands the result to every blocked waiter instead of the session", async () => {
+    const { dispatcher, notified } = createDispatcher();
+    const first = dispatcher.wait("call-1", 60_000);
+    const second = dispatcher.wait("call-1", 60_000);
+    const record = finished();
+
+    expect(dispatcher.settle(record)).toBe(true);
+    expect(await first).toBe(record);
+    expect(await second).toBe(record);
+    expect(notified).toEqual([]);
+  });
+
+  test("resolves a waiter on the first attempt's callId when a retry finishes", async () => {
+    const { dispatcher } = createDispatcher();
+    const waiting = dispatcher.wait("call-1", 60_000);
+    const retry = finished({ callId: "call-2", originalCallId: "call-1", attempt: 2 });
+
+    expect(dispatcher.settle(retry)).toBe(true);
+    expect(await waiting).toBe(retry);
+  });
+
+  test("resolves undefined on timeout and then notifies the session", async () => {
+    const { dispatcher, notified } = createDispatcher();
+    const waiting = dispatcher.wait("call-1", 1_000);
+    jest.advanceTimersByTime(1_000);
+    expect(await waiting).toBeUndefined();
+
+    expect(dispatcher.settle(finished())).toBe(true);
+    expect(notified).toHaveLength(1);
+    expect(notified[0]?.sessionKey).toBe("agent:main");
+  });
+
+  test("a settled waiter does not fire its timeout", async () => {
+    const { dispatcher } = createDispatcher();
+    const waiting = dispatcher.wait("call-1", 1_000);
+    dispatcher.settle(finished());
+    jest.advanceTimersByTime(5_000);
+    expect(await waiting).toBeDefined();
+  });
+
+  test("releases waiters even when session notification is off", async () => {
+    const { dispatcher, notified } = createDispatcher();
+    const waiting = dispatcher.wait("call-1", 60_000);
+    const record = finished();
+
+    expect(dispatcher.settle(record, [], false)).toBe(true);
+    expect(await waiting).toBe(record);
+    expect(notified).toEqual([]);
+  });
+
+  test("does not notify without a session or when notification is off", () => {
+    const { dispatcher, notified } = createDispatcher();
+    expect(dispatcher.settle(finished({ sessionKey: undefined }))).toBe(false);
+    expect(dispatcher.settle(finished(), [], false)).toBe(false);
+    expect(notified).toEqual([]);
+  });
+
+  test("only settles waiters for the finished call", async () => {
+    const { dispatcher } = createDispatcher();
+    const other = dispatcher.wait("call-9", 1_000);
+    dispatcher.settle(finished());
+    jest.advanceTimersByTime(1_000);
+    expect(await other).toBeUndefined();
+  });
+});
+
+describe("formatCallResultMessage", () => {
+  test("includes status, outcome and transcript", () => {
+    const text = formatCallResultMessage(finished());
+    expect(text).toContain("Phone call call-1 to +14155551234 finished (completed, 42s).");
+    expect(text).toContain("Outcome: success — Open until 9pm");
+    expect(text).toContain("assistant: Are you open today?");
+  });
+
+  test("lists every attempt of a retried call under the original callId", () => {
+    const attempts = [
+      finished({ status: "no-answer", outcome: undefined }),
+      finished({ callId: "call-2", originalCallId: "call-1", attempt: 2, status: "completed", amdResult: "human" }),
+    ];
+    const text = formatCallResultMessage(attempts[1]!, attempts);
+    expect(text).toContain("Phone call call-1 to");
+    expect(text).toContain("Attempts: 2 (no-answer, human)");
+  });
+
+  test("includes the error of a call that could not be completed", () => {
+    const text = formatCallResultMessage(finished({ outcome: undefined, error: "RATE_LIMITED" }));
+    expect(text).toContain("Outcome: not reported by the voice agent.");
+    expect(text).toContain("Error: RATE_LIMITED");
+  });
+});
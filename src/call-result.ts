@@ -0,0 +1,318 @@
+/**
+ * Call result views (tool/gateway payloads, CLI reports) and delivery back
+ * to the OpenClaw agent that placed the call.
+ *
+ * A finished CallRecord is either handed to a caller blocked in
+ * make_phone_call (waitForResult) or, if nobody is waiting, pushed into the
+ * originating session as a system event so the agent learns the outcome.
+ */
+
+import type { CallOutcome, CallRecord } from "./call-manager.ts";
+import { redactor } from "./redaction.ts";
+
+export interface CallResult {
+  callId: string;
+  callSid?: string;
+  to: string;
+  direction: CallRecord["direction"];
+  status: CallRecord["status"];
+  task: string;
+  startedAt: number;
+  endedAt?: number;
+  duration?: number;
+  amdResult?: string;
+  outcome?: CallRecord["outcome"];
+  error?: string;
+  transfer?: CallRecord["transfer"];
+  cancellation?: CallRecord["cancellation"];
+  transcript: CallRecord["transcript"];
+  /** Present when the call was retried; the fields above describe the final attempt. */
+  originalCallId?: string;
+  attempts?: AttemptSummary[];
+}
+
+export interface AttemptSummary {
+  callId: string;
+  attempt: number;
+  status: CallRecord["status"];
+  startedAt: number;
+  amdResult?: string;
+}
+
+export interface CallSummary {
+  callId: string;
+  callSid?: string;
+  to: string;
+  from: string;
+  direction: CallRecord["direction"];
+  status: CallRecord["status"];
+  task: string;
+  startedAt: number;
+  duration?: number;
+  amdResult?: string;
+  success?: boolean;
+  summary?: string;
+}
+
+type SessionNotifier = (sessionKey: string, text: string) => boolean;
+
+interface PendingWaiter {
+  resolve: (record: CallRecord | undefined) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export function toCallResult(record: CallRecord, attempts: CallRecord[] = []): CallResult {
+  // Live records are unredacted; stored ones already are (redacting twice is harmless)
+  record = redactor.record(record);
+  const result: CallResult = {
+    callId: record.callId,
+    callSid: record.callSid,
+    to: record.to,
+    direction: record.direction,
+    status: record.status,
+    task: record.task,
+    startedAt: record.startedAt,
+    endedAt: record.endedAt,
+    duration: record.duration,
+    amdResult: record.amdResult,
+    outcome: record.outcome,
+    error: record.error,
+    transfer: record.transfer,
+    cancellation: record.cancellation,
+    transcript: record.transcript,
+  };
+
+  if (attempts.length > 1) {
+    result.originalCallId = record.originalCallId ?? record.callId;
+    result.attempts = attempts.map(toAttemptSummary);
+  }
+  return result;
+}
+
+function toAttemptSummary(record: CallRecord): AttemptSummary {
+  return {
+    callId: record.callId,
+    attempt: record.attempt ?? 1,
+    status: record.status,
+    startedAt: record.startedAt,
+    amdResult: record.amdResult,
+  };
+}
+
+export function toCallSummary(record: CallRecord): CallSummary {
+  return {
+    callId: record.callId,
+    callSid: record.callSid,
+    to: record.to,
+    from: record.from,
+    direction: record.direction,
+    status: record.status,
+    task: record.task,
+    startedAt: record.startedAt,
+    duration: record.duration,
+    amdResult: record.amdResult,
+    success: record.outcome?.success,
+    summary: record.outcome?.summary,
+  };
+}
+
+/**
+ * Render a call as a human-readable report: metadata, outcome, then the
+ * transcript with offsets from the start of the call.
+ */
+export function formatCallReport(record: CallRecord): string {
+  const lines: string[] = [];
+  lines.push(`Call ${record.callId}${record.callSid ? ` (${record.callSid})` : ""}`);
+  lines.push(`  Direction: ${record.direction}`);
+  lines.push(`  From:      ${record.from}`);
+  lines.push(`  To:        ${record.to}`);
+  lines.push(`  Task:      ${record.task}`);
+  lines.push(`  Status:    ${record.status}`);
+  lines.push(`  Started:   ${new Date(record.startedAt).toISOString()}`);
+  if (record.answeredAt) lines.push(`  Answered:  ${new Date(record.answeredAt).toISOString()}`);
+  if (record.endedAt) lines.push(`  Ended:     ${new Date(record.endedAt).toISOString()}`);
+  if (record.duration !== undefined) lines.push(`  Duration:  ${formatOffset(record.duration * 1000)}`);
+  lines.push(`  AMD:       ${record.amdResult || "n/a"}`);
+  if (record.error) lines.push(`  Error:     ${record.error}`);
+  if (record.transfer) lines.push(`  Transfer:  ${formatTransfer(record.transfer)}`);
+  if (record.cancellation) lines.push(`  Cancelled: ${formatCancellation(record.cancellation)}`);
+  if (record.outcome?.voicemailLeft) lines.push("  Voicemail: message left");
+  if (record.consent) lines.push(`  Recording: ${formatConsent(record.consent)}`);
+
+  lines.push("");
+  if (record.outcome) {
+    lines.push(
+      `Outcome${record.outcome.inferred ? " (inferred from transcript)" : ""}: ${
+        record.outcome.success ? "success" : "not achieved"
+      } — ${record.outcome.summary}`
+    );
+    if (record.outcome.details && Object.keys(record.outcome.details).length > 0) {
+      lines.push(JSON.stringify(record.outcome.details, null, 2));
+    }
+    if (record.outcome.validation && !record.outcome.validation.valid) {
+      lines.push(`Schema check: ${formatValidation(record.outcome.validation)}`);
+    }
+  } else {
+    lines.push("Outcome: not reported");
+  }
+
+  lines.push("", "Transcript:");
+  if (record.transcript.length === 0) {
+    lines.push("  (empty)");
+  }
+  for (const entry of record.transcript) {
+    lines.push(`  [${formatOffset(entry.ts - record.startedAt)}] ${entry.role}: ${entry.text}`);
+  }
+
+  return lines.join("\n");
+}
+
+function formatValidation(validation: NonNullable<CallOutcome["validation"]>): string {
+  return [
+    ...(validation.missing.length > 0 ? [`missing ${validation.missing.join(", ")}`] : []),
+    ...validation.errors,
+  ].join("; ");
+}
+
+function formatTransfer(transfer: NonNullable<CallRecord["transfer"]>): string {
+  return `to ${transfer.target} by ${transfer.requestedBy}${transfer.reason ? ` (${transfer.reason})` : ""}`;
+}
+
+function formatCancellation(cancellation: NonNullable<CallRecord["cancellation"]>): string {
+  return `by ${cancellation.requestedBy} while ${cancellation.fromStatus}${cancellation.reason ? ` (${cancellation.reason})` : ""}`;
+}
+
+function formatConsent(consent: NonNullable<CallRecord["consent"]>): string {
+  if (!consent.recordingAllowed) return `not allowed (consent rule ${consent.rule ?? "default"})`;
+  if (!consent.recorded) return "off";
+  return consent.disclosed ? "recorded, disclosure given" : "recorded, disclosure NOT given";
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+/**
+ * Render a finished call as a plain-text message for the agent's session.
+ */
+export function formatCallResultMessage(record: CallRecord, attempts: CallRecord[] = []): string {
+  record = redactor.record(record);
+  const lines: string[] = [];
+  const duration = record.duration !== undefined ? `, ${record.duration}s` : "";
+  const callId = record.originalCallId ?? record.callId;
+  lines.push(`[voice-rt] Phone call ${callId} to ${record.to} finished (${record.status}${duration}).`);
+  lines.push(`Task: ${record.task}`);
+
+  if (attempts.length > 1) {
+    lines.push(`Attempts: ${attempts.length} (${attempts.map((a) => a.amdResult && a.status === "completed" ? a.amdResult : a.status).join(", ")})`);
+  }
+
+  if (record.amdResult) {
+    lines.push(`Answered by: ${record.amdResult}`);
+  }
+
+  if (record.transfer) {
+    lines.push(`Transferred ${formatTransfer(record.transfer)}.`);
+  }
+
+  if (record.cancellation) {
+    lines.push(`Cancelled ${formatCancellation(record.cancellation)}.`);
+  }
+
+  if (record.outcome?.voicemailLeft) {
+    lines.push("Reached voicemail; a message was left.");
+  }
+
+  if (record.outcome) {
+    lines.push(
+      `Outcome${record.outcome.inferred ? " (inferred from transcript)" : ""}: ${
+        record.outcome.success ? "success" : "not achieved"
+      } — ${record.outcome.summary}`
+    );
+    if (record.outcome.details && Object.keys(record.outcome.details).length > 0) {
+      lines.push(`Details: ${JSON.stringify(record.outcome.details)}`);
+    }
+    if (record.outcome.validation && !record.outcome.validation.valid) {
+      lines.push(`Details do not match the outcome schema: ${formatValidation(record.outcome.validation)}`);
+    }
+  } else {
+    lines.push("Outcome: not reported by the voice agent.");
+  }
+
+  if (record.error) {
+    lines.push(`Error: ${record.error}`);
+  }
+
+  if (record.transcript.length > 0) {
+    lines.push("", "Transcript:");
+    for (const entry of record.transcript) {
+      lines.push(`${entry.role}: ${entry.text}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export class CallResultDispatcher {
+  private waiters = new Map<string, PendingWaiter[]>();
+  private notify: SessionNotifier;
+
+  constructor(notify: SessionNotifier) {
+    this.notify = notify;
+  }
+
+  /**
+   * Block until the call finishes or the timeout elapses. Resolves with
+   * undefined on timeout; the result is then delivered to the session instead.
+   */
+  wait(callId: string, timeoutMs: number): Promise<CallRecord | undefined> {
+    return new Promise((resolve) => {
+      const waiter: PendingWaiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.removeWaiter(callId, waiter);
+          resolve(undefined);
+        }, timeoutMs),
+      };
+      const list = this.waiters.get(callId) ?? [];
+      list.push(waiter);
+      this.waiters.set(callId, list);
+    });
+  }
+
+  /**
+   * Hand a finished call to any blocked waiters, otherwise notify the
+   * originating session (unless notifySession is false). Returns true if the
+   * result reached the agent.
+   */
+  settle(record: CallRecord, attempts: CallRecord[] = [], notifySession = true): boolean {
+    // Waiters are keyed by the callId the agent was given, i.e. the first attempt
+    const callId = record.originalCallId ?? record.callId;
+    const waiters = this.waiters.get(callId);
+    if (waiters && waiters.length > 0) {
+      this.waiters.delete(callId);
+      for (const waiter of waiters) {
+        clearTimeout(waiter.timer);
+        waiter.resolve(record);
+      }
+      return true;
+    }
+
+    if (!notifySession || !record.sessionKey) return false;
+    return this.notify(record.sessionKey, formatCallResultMessage(record, attempts));
+  }
+
+  private removeWaiter(callId: string, waiter: PendingWaiter): void {
+    const list = this.waiters.get(callId);
+    if (!list) return;
+    const remaining = list.filter((w) => w !== waiter);
+    if (remaining.length > 0) {
+      this.waiters.set(callId, remaining);
+    } else {
+      this.waiters.delete(callId);
+    }
+  }
+}
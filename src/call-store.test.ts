@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, test, setSystemTime } from "bun:test";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CallRecord } from "./call-manager.ts";
+import { CallStore, parseTimeFilter } from "./call-store.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-03-01T12:00:00Z").getTime();
+
+let dir: string;
+let filePath: string;
+
+beforeEach(() => {
+  setSystemTime(new Date(NOW));
+  dir = mkdtempSync(join(tmpdir(), "voice-rt-store-"));
+  filePath = join(dir, "calls.jsonl");
+});
+
+afterEach(() => {
+  setSystemTime();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function call(callId: string, overrides: Partial<CallRecord> = {}): CallRecord {
+  return {
+    callId,
+    to: "+14155551234",
+    from: "+14155550000",
+    task: "Check opening hours",
+    direction: "outbound",
+    status: "completed",
+    startedAt: NOW - 60_000,
+    transcript: [{ role: "assistant", text: "Hi, are you open today?", ts: NOW - 50_000 }],
+    ...overrides,
+  };
+}
+
+function createStore(options: Partial<{ retentionDays: number; maxRecords: number }> = {}): CallStore {
+  return new CallStore({ retentionDays: 90, maxRecords: 5000, ...options }, filePath);
+}
+
+function logLines(): number {
+  return readFileSync(filePath, "utf8").split("\n").filter(Boolean).length;
+}
+
+describe("CallStore", () => {
+  test("reloads full records, with the latest line for a callId winning", () => {
+    const store = createStore();
+    store.save(call("a", { status: "in-progress", callSid: "CA1" }));
+    store.save(call("a", { status: "completed", callSid: "CA1", outcome: { success: true, summary: "Open until 9" } }));
+
+    const reloaded = createStore();
+    expect(reloaded.get("a")?.status).toBe("completed");
+    expect(reloaded.get("a")?.outcome?.summary).toBe("Open until 9");
+    expect(reloaded.get("a")?.transcript).toHaveLength(1);
+    expect(reloaded.getByCallSid("CA1")?.callId).toBe("a");
+  });
+
+  test("stores a snapshot, not the live record", () => {
+    const store = createStore();
+    const record = call("a");
+    store.save(record);
+    record.transcript.push({ role: "user", text: "Yes", ts: NOW });
+    expect(store.get("a")?.transcript).toHaveLength(1);
+  });
+
+  test("skips partially written lines and fills in missing transcripts", () => {
+    appendFileSync(filePath, JSON.stringify({ ...call("old"), transcript: undefined, transcriptLength: 3 }) + "\n");
+    appendFileSync(filePath, '{"callId":"broken",');
+
+    const store = createStore();
+    expect(store.get("old")?.transcript).toEqual([]);
+    expect(store.get("broken")).toBeUndefined();
+  });
+
+  test("groups retry attempts under the original callId", () => {
+    const store = createStore();
+    store.save(call("a", { status: "no-answer" }));
+    store.save(call("b", { status: "completed", originalCallId: "a", attempt: 2 }));
+    store.save(call("c"));
+
+    expect(store.getAttempts("a").map((r) => r.callId)).toEqual(["a", "b"]);
+  });
+});
+
+describe("CallStore.query", () => {
+  function seeded(): CallStore {
+    const store = createStore();
+    store.save(call("oldest", { startedAt: NOW - 3 * DAY_MS, to: "+1 (415) 555-9999" }));
+    store.save(call("inbound", { startedAt: NOW - 2 * DAY_MS, direction: "inbound", to: "+14155550000", from: "+442079460000" }));
+    store.save(call("busy", { startedAt: NOW - DAY_MS, status: "busy" }));
+    store.save(call("newest", { startedAt: NOW - 1000 }));
+    return store;
+  }
+
+  test("returns the newest records first", () => {
+    const result = seeded().query();
+    expect(result.records.map((r) => r.callId)).toEqual(["newest", "busy", "inbound", "oldest"]);
+    expect(result).toMatchObject({ total: 4, limit: 20, offset: 0 });
+  });
+
+  test("matches a number on either side, ignoring formatting", () => {
+    const store = seeded();
+    expect(store.query({ number: "415-555-9999" }).records.map((r) => r.callId)).toEqual(["oldest"]);
+    expect(store.query({ number: "+44 20 7946" }).records.map((r) => r.callId)).toEqual(["inbound"]);
+  });
+
+  test("filters by direction and status", () => {
+    const store = seeded();
+    expect(store.query({ direction: "inbound" }).records.map((r) => r.callId)).toEqual(["inbound"]);
+    expect(store.query({ status: "busy" }).records.map((r) => r.callId)).toEqual(["busy"]);
+  });
+
+  test("filters by date range, since inclusive and until exclusive", () => {
+    const result = seeded().query({ since: NOW - 2 * DAY_MS, until: NOW - DAY_MS });
+    expect(result.records.map((r) => r.callId)).toEqual(["inbound"]);
+  });
+
+  test("pages through results and clamps the page size", () => {
+    const store = seeded();
+    const page = store.query({ limit: 2, offset: 1 });
+    expect(page.records.map((r) => r.callId)).toEqual(["busy", "inbound"]);
+    expect(page.total).toBe(4);
+
+    expect(store.query({ limit: 0 }).limit).toBe(1);
+    expect(store.query({ limit: 10_000 }).limit).toBe(200);
+    expect(store.query({ offset: -5 }).offset).toBe(0);
+  });
+});
+
+describe("CallStore.prune", () => {
+  test("drops records older than the retention period", () => {
+    const store = createStore({ retentionDays: 7 });
+    // The first save runs the hourly prune, so the expired record comes second
+    store.save(call("kept", { startedAt: NOW - 6 * DAY_MS }));
+    store.save(call("expired", { startedAt: NOW - 8 * DAY_MS }));
+
+    expect(store.prune()).toBe(1);
+    expect(store.get("expired")).toBeUndefined();
+    expect(createStore({ retentionDays: 7 }).get("expired")).toBeUndefined();
+    expect(logLines()).toBe(1);
+  });
+
+  test("keeps only the newest maxRecords", () => {
+    const store = createStore({ maxRecords: 10 });
+    for (let i = 0; i < 12; i++) store.save(call(`call-${i}`, { startedAt: NOW - (12 - i) * 1000 }));
+
+    // save() prunes on its own once the store grows past maxRecords
+    expect(store.query({ limit: 200 }).total).toBe(10);
+    expect(store.get("call-0")).toBeUndefined();
+    expect(store.get("call-1")).toBeUndefined();
+    expect(store.get("call-11")).toBeDefined();
+  });
+
+  test("returns 0 and leaves the log alone when nothing is dropped", () => {
+    const store = createStore();
+    store.save(call("a"));
+    store.save(call("a", { status: "failed" }));
+
+    expect(store.prune()).toBe(0);
+    expect(logLines()).toBe(2);
+  });
+
+  test("compactLog rewrites superseded snapshots", () => {
+    const store = createStore();
+    store.save(call("a", { status: "in-progress" }));
+    store.save(call("a"));
+
+    createStore().compactLog();
+    expect(logLines()).toBe(1);
+    expect(createStore().get("a")?.status).toBe("completed");
+  });
+});
+
+describe("parseTimeFilter", () => {
+  test("accepts epoch milliseconds, ISO dates and relative durations", () => {
+    expect(parseTimeFilter(1234)).toBe(1234);
+    expect(parseTimeFilter("2026-02-20T00:00:00Z")).toBe(Date.parse("2026-02-20T00:00:00Z"));
+    expect(parseTimeFilter("30m")).toBe(NOW - 30 * 60_000);
+    expect(parseTimeFilter("24h")).toBe(NOW - DAY_MS);
+    expect(parseTimeFilter("7d")).toBe(NOW - 7 * DAY_MS);
+    expect(parseTimeFilter("2w")).toBe(NOW - 14 * DAY_MS);
+  });
+
+  test("ignores empty values and rejects unparseable ones", () => {
+    expect(parseTimeFilter(undefined)).toBeUndefined();
+    expect(parseTimeFilter("  ")).toBeUndefined();
+    expect(() => parseTimeFilter("yesterday")).toThrow('Invalid time "yesterday"');
+  });
+});
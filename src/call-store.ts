@@ -0,0 +1,206 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import type { CallRecord } from "./call-manager.ts";
+
+export const DATA_DIR = join(homedir(), ".openclaw", "voice-calls-realtime");
+const CALLS_FILE = join(DATA_DIR, "calls.jsonl");
+/** Unredacted copies of call records, only written when redaction.keepUnredacted is on. */
+export const UNREDACTED_CALLS_FILE = join(DATA_DIR, "calls-unredacted.jsonl");
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 200;
+
+export interface CallStoreOptions {
+  retentionDays: number;
+  maxRecords: number;
+}
+
+export interface CallQuery {
+  /** Matches either side of the call; formatting (spaces, dashes, +) is ignored. */
+  number?: string;
+  direction?: CallRecord["direction"];
+  status?: CallRecord["status"];
+  /** Epoch ms, inclusive. */
+  since?: number;
+  /** Epoch ms, exclusive. */
+  until?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface CallQueryResult {
+  records: CallRecord[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Durable store for finished call records.
+ *
+ * Records live in an append-only JSONL log where the latest line for a callId
+ * wins. The log is loaded into memory (with callId/callSid indexes) on
+ * construction. Only the gateway service writes to it: it compacts the log on
+ * start and whenever the retention policy drops records. CLI processes load
+ * the same file read-only, since a rewrite there would race the gateway's
+ * appends.
+ */
+export class CallStore {
+  private records = new Map<string, CallRecord>();
+  private sidToCallId = new Map<string, string>();
+  private options: CallStoreOptions;
+  private filePath: string;
+  private lastPrunedAt = 0;
+  // Lines in the log for records that a later line replaced
+  private supersededLines = 0;
+
+  constructor(options: CallStoreOptions, filePath = CALLS_FILE) {
+    this.options = options;
+    this.filePath = filePath;
+    mkdirSync(dirname(filePath), { recursive: true, mode: 0o700 });
+    this.load();
+  }
+
+  save(record: CallRecord): void {
+    const snapshot = structuredClone(record);
+    this.index(snapshot);
+    appendFileSync(this.filePath, JSON.stringify(snapshot) + "\n", { mode: 0o600 });
+
+    if (this.records.size > this.options.maxRecords || Date.now() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+      this.prune();
+    }
+  }
+
+  get(callId: string): CallRecord | undefined {
+    return this.records.get(callId);
+  }
+
+  getByCallSid(callSid: string): CallRecord | undefined {
+    const callId = this.sidToCallId.get(callSid);
+    return callId ? this.records.get(callId) : undefined;
+  }
+
+  getAttempts(originalCallId: string): CallRecord[] {
+    return Array.from(this.records.values()).filter(
+      (r) => r.callId === originalCallId || r.originalCallId === originalCallId
+    );
+  }
+
+  query(query: CallQuery = {}): CallQueryResult {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(query.offset ?? 0, 0);
+    const number = query.number ? digitsOnly(query.number) : "";
+
+    const matches = Array.from(this.records.values())
+      .filter((r) => {
+        if (number && !digitsOnly(r.to).includes(number) && !digitsOnly(r.from).includes(number)) return false;
+        if (query.direction && r.direction !== query.direction) return false;
+        if (query.status && r.status !== query.status) return false;
+        if (query.since !== undefined && r.startedAt < query.since) return false;
+        if (query.until !== undefined && r.startedAt >= query.until) return false;
+        return true;
+      })
+      .sort((a, b) => b.startedAt - a.startedAt);
+
+    return {
+      records: matches.slice(offset, offset + limit),
+      total: matches.length,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Apply the retention policy and drop superseded snapshots from the log.
+   * Gateway service only; see the class comment.
+   */
+  compactLog(): void {
+    if (this.prune() === 0 && this.supersededLines > 0) this.compact();
+  }
+
+  /**
+   * Apply the retention policy (max age, then max record count) and compact
+   * the log if anything was dropped.
+   */
+  prune(): number {
+    this.lastPrunedAt = Date.now();
+    const cutoff = Date.now() - this.options.retentionDays * 24 * 60 * 60 * 1000;
+    const kept = Array.from(this.records.values())
+      .filter((r) => r.startedAt >= cutoff)
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(0, this.options.maxRecords);
+
+    const removed = this.records.size - kept.length;
+    if (removed === 0) return 0;
+
+    this.records.clear();
+    this.sidToCallId.clear();
+    for (const record of kept.reverse()) {
+      this.index(record);
+    }
+    this.compact();
+    return removed;
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+
+    let lineCount = 0;
+    for (const line of readFileSync(this.filePath, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      lineCount++;
+      try {
+        const parsed = JSON.parse(line) as Partial<CallRecord>;
+        if (!parsed.callId) continue;
+        // Older log lines carry only a transcript length, not the transcript itself.
+        this.index({
+          ...parsed,
+          transcript: Array.isArray(parsed.transcript) ? parsed.transcript : [],
+        } as CallRecord);
+      } catch {
+        // Skip partially written lines
+      }
+    }
+
+    this.supersededLines = lineCount - this.records.size;
+  }
+
+  private index(record: CallRecord): void {
+    this.records.set(record.callId, record);
+    if (record.callSid) this.sidToCallId.set(record.callSid, record.callId);
+  }
+
+  private compact(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const lines = Array.from(this.records.values()).map((r) => JSON.stringify(r));
+    writeFileSync(tmpPath, lines.length > 0 ? lines.join("\n") + "\n" : "", { mode: 0o600 });
+    renameSync(tmpPath, this.filePath);
+    this.supersededLines = 0;
+  }
+}
+
+/**
+ * Parse a time filter: epoch milliseconds, an ISO 8601 date, or a relative
+ * duration back from now ("30m", "24h", "7d").
+ */
+export function parseTimeFilter(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+
+  const relative = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[relative[2].toLowerCase() as "m" | "h" | "d" | "w"];
+    return Date.now() - Number(relative[1]) * unitMs;
+  }
+
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid time "${value}". Use an ISO date (2026-02-20) or a relative time (24h, 7d)`);
+  }
+  return parsed;
+}
+
+function digitsOnly(value: string): string {
+  return value.replace(/\D/g, "");
+}
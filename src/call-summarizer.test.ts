@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, jest, test } from "bun:test";
+import type { CallRecord } from "./call-manager.ts";
+import { inferCallOutcome, type CallSummarizer, type PostCallSummaryRequest } from "./call-summarizer.ts";
+
+function ended(overrides: Partial<CallRecord> = {}): CallRecord {
+  return {
+    callId: "call-1",
+    to: "+14155551234",
+    from: "+14155550000",
+    task: "Book a table for four at 7pm",
+    direction: "outbound",
+    status: "completed",
+    startedAt: 0,
+    transcript: [
+      { role: "system", text: "Call connected", ts: 0 },
+      { role: "assistant", text: "Hi, could I book a table for four at 7pm?", ts: 1000 },
+      { role: "callee", text: "Sure, under what name? ... hello?", ts: 2000 },
+    ],
+    ...overrides,
+  };
+}
+
+/** Summarizer stub that records its requests and answers with a fixed summary. */
+function stub(answer: unknown = { success: true, summary: "Table booked.", details: {} }) {
+  const requests: PostCallSummaryRequest[] = [];
+  const summarizer: CallSummarizer = {
+    async summarize(request) {
+      requests.push(request);
+      return answer as Awaited<ReturnType<CallSummarizer["summarize"]>>;
+    },
+  };
+  return { summarizer, requests };
+}
+
+const reservationSchema = {
+  type: "object",
+  properties: {
+    confirmed: { type: "boolean" },
+    partySize: { type: "integer" },
+  },
+  required: ["confirmed", "partySize"],
+};
+
+describe("inferCallOutcome", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("returns an inferred outcome from the summarizer", async () => {
+    const { summarizer, requests } = stub({
+      success: false,
+      summary: "  The line dropped before a name was given.  ",
+      details: { partySize: 4 },
+    });
+    const record = ended();
+
+    expect(await inferCallOutcome(summarizer, record, undefined, 10_000)).toEqual({
+      success: false,
+      summary: "The line dropped before a name was given.",
+      details: { partySize: 4 },
+      inferred: true,
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.record).toBe(record);
+  });
+
+  test("passes the outcomeSchema along and attaches its validation", async () => {
+    const { summarizer, requests } = stub({ success: true, summary: "Booked.", details: { partySize: "four" } });
+
+    const outcome = await inferCallOutcome(summarizer, ended(), reservationSchema, 10_000);
+    expect(requests[0]?.outcomeSchema).toBe(reservationSchema);
+    expect(outcome?.inferred).toBe(true);
+    expect(outcome?.validation?.valid).toBe(false);
+    expect(outcome?.validation?.missing).toEqual(["confirmed"]);
+    expect(outcome?.validation?.errors).toEqual(["partySize: expected integer"]);
+  });
+
+  test("reports a schema-conforming summary as valid", async () => {
+    const { summarizer } = stub({ success: true, summary: "Booked.", details: { confirmed: true, partySize: 4 } });
+    const outcome = await inferCallOutcome(summarizer, ended(), reservationSchema, 10_000);
+    expect(outcome?.validation).toEqual({ valid: true, missing: [], errors: [] });
+  });
+
+  test("drops empty details", async () => {
+    const { summarizer } = stub({ success: true, summary: "Booked.", details: {} });
+    expect((await inferCallOutcome(summarizer, ended(), undefined, 10_000))?.details).toBeUndefined();
+  });
+
+  test("skips transcripts that only have system entries", async () => {
+    const { summarizer, requests } = stub();
+    const record = ended({
+      status: "no-answer",
+      transcript: [{ role: "system", text: "Voicemail detected, hanging up", ts: 0 }],
+    });
+
+    expect(await inferCallOutcome(summarizer, record, undefined, 10_000)).toBeUndefined();
+    expect(await inferCallOutcome(summarizer, ended({ transcript: [] }), undefined, 10_000)).toBeUndefined();
+    expect(requests).toEqual([]);
+  });
+
+  test("does not summarize a call whose outcome was already reported", async () => {
+    const { summarizer, requests } = stub();
+    const record = ended({ outcome: { success: true, summary: "Booked for 7pm under Lee." } });
+
+    expect(await inferCallOutcome(summarizer, record, undefined, 10_000)).toBeUndefined();
+    expect(requests).toEqual([]);
+  });
+
+  test("aborts the summarizer on timeout", async () => {
+    jest.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    const summarizer: CallSummarizer = {
+      summarize(request) {
+        signal = request.signal;
+        return new Promise((_, reject) => {
+          request.signal.addEventListener("abort", () => reject(new Error("The operation was aborted.")));
+        });
+      },
+    };
+
+    const pending = inferCallOutcome(summarizer, ended(), undefined, 5_000);
+    expect(signal?.aborted).toBe(false);
+    jest.advanceTimersByTime(5_000);
+
+    expect(signal?.aborted).toBe(true);
+    await expect(pending).rejects.toThrow("aborted");
+  });
+
+  test("rejects a summary without a summary string", async () => {
+    const { summarizer } = stub({ success: true, details: { confirmed: true } });
+    await expect(inferCallOutcome(summarizer, ended(), undefined, 10_000)).rejects.toThrow(
+      "Summary is missing a summary string"
+    );
+  });
+});
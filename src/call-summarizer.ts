@@ -0,0 +1,152 @@
+/**
+ * Post-call summaries for calls that ended without report_outcome (hangup,
+ * maxDurationSeconds, dropped stream).
+ *
+ * A summarizer reads the stored transcript and returns a best-effort outcome,
+ * which is recorded with inferred: true. The default implementation asks an
+ * OpenAI chat model; tests and other plugins can swap in their own through
+ * setCallSummarizer.
+ */
+
+import type { CallOutcome, CallRecord } from "./call-manager.ts";
+import { validateOutcomeDetails, type OutcomeSchema } from "./outcome-schema.ts";
+
+const MAX_TRANSCRIPT_CHARS = 24_000;
+
+export interface PostCallSummaryRequest {
+  record: CallRecord;
+  /** Per-call outcomeSchema, if the caller supplied one. */
+  outcomeSchema?: OutcomeSchema;
+  /** Aborted when the summary takes longer than summary.timeoutSeconds. */
+  signal: AbortSignal;
+}
+
+export interface PostCallSummary {
+  success: boolean;
+  summary: string;
+  details?: Record<string, unknown>;
+}
+
+export interface CallSummarizer {
+  summarize(request: PostCallSummaryRequest): Promise<PostCallSummary>;
+}
+
+export class OpenAICallSummarizer implements CallSummarizer {
+  private apiKey: string;
+  private model: string;
+
+  constructor(apiKey: string, model: string) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async summarize({ record, outcomeSchema, signal }: PostCallSummaryRequest): Promise<PostCallSummary> {
+    const res = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: buildSystemPrompt(outcomeSchema) },
+          { role: "user", content: formatTranscriptForSummary(record) },
+        ],
+      }),
+      signal,
+    });
+
+    const body = await res.text();
+    if (!res.ok) {
+      throw new Error(`OpenAI summary request failed: ${res.status} ${body.slice(0, 200)}`);
+    }
+
+    const content = (JSON.parse(body) as { choices?: Array<{ message?: { content?: string } }> }).choices?.[0]?.message
+      ?.content;
+    if (!content) throw new Error("OpenAI summary response was empty");
+    return parseCallSummary(JSON.parse(content));
+  }
+}
+
+/**
+ * Run a summarizer over a finished call and turn its answer into an inferred
+ * outcome, validated against the call's outcomeSchema when there is one.
+ * Returns undefined when there is nothing to summarize or the voice model
+ * already reported an outcome.
+ */
+export async function inferCallOutcome(
+  summarizer: CallSummarizer,
+  record: CallRecord,
+  outcomeSchema: OutcomeSchema | undefined,
+  timeoutMs: number
+): Promise<CallOutcome | undefined> {
+  if (record.outcome) return undefined;
+  // Nothing to go on if nobody spoke (no-answer, busy, immediate hangup)
+  if (!record.transcript.some((entry) => entry.role !== "system")) return undefined;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const result = parseCallSummary(await summarizer.summarize({ record, outcomeSchema, signal: controller.signal }));
+    const outcome: CallOutcome = { success: result.success, summary: result.summary, details: result.details, inferred: true };
+    if (outcomeSchema) outcome.validation = validateOutcomeDetails(outcomeSchema, result.details);
+    return outcome;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function buildSystemPrompt(outcomeSchema: OutcomeSchema | undefined): string {
+  const lines = [
+    "You review transcripts of phone calls placed by an AI voice agent on someone's behalf.",
+    "The call ended before the agent reported an outcome. Work out what actually happened, using only the transcript.",
+    'Reply with a JSON object: {"success": boolean, "summary": string, "details": object}.',
+    "- success: true only if the task was clearly accomplished.",
+    "- summary: one or two sentences on what happened and why the call ended.",
+  ];
+  if (outcomeSchema) {
+    lines.push(
+      "- details: must follow this JSON Schema. Leave out any field the transcript does not establish; never guess.",
+      JSON.stringify(outcomeSchema)
+    );
+  } else {
+    lines.push("- details: key facts from the call (names, times, prices, confirmation numbers); {} if none.");
+  }
+  return lines.join("\n");
+}
+
+function formatTranscriptForSummary(record: CallRecord): string {
+  const lines = [
+    `Task: ${record.task}`,
+    `Direction: ${record.direction}; final status: ${record.status}` +
+      (record.amdResult ? `; answered by: ${record.amdResult}` : "") +
+      (record.duration !== undefined ? `; duration: ${record.duration}s` : ""),
+    "",
+    "Transcript (assistant = the AI agent; callee/caller = the other person; operator = a human steering the agent):",
+  ];
+  for (const entry of record.transcript) lines.push(`${entry.role}: ${entry.text}`);
+  for (const call of record.toolCalls ?? []) lines.push(`[tool ${call.name}(${JSON.stringify(call.args)}) → ${call.result}]`);
+
+  const text = lines.join("\n");
+  // Keep the end of long calls; that is where the outcome usually is
+  return text.length > MAX_TRANSCRIPT_CHARS ? `…${text.slice(-MAX_TRANSCRIPT_CHARS)}` : text;
+}
+
+function parseCallSummary(value: unknown): PostCallSummary {
+  const raw = (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>;
+  if (typeof raw.summary !== "string" || !raw.summary.trim()) {
+    throw new Error("Summary is missing a summary string");
+  }
+  const details =
+    typeof raw.details === "object" && raw.details !== null && !Array.isArray(raw.details)
+      ? (raw.details as Record<string, unknown>)
+      : undefined;
+  return {
+    success: raw.success === true,
+    summary: raw.summary.trim(),
+    details: details && Object.keys(details).length > 0 ? details : undefined,
+  };
+}
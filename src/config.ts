@@ -1,5 +1,15 @@
 import { z } from "zod";
 import { normalizeAndValidatePublicUrl } from "./public-url.ts";
+import { checkOutcomeSchema, type OutcomeSchema } from "./outcome-schema.ts";
+import { OutboundPolicy } from "./outbound-policy.ts";
+import { REDACTION_PATTERNS } from "./redaction.ts";
+
+export const OPENAI_VOICES = ["alloy", "ash", "ballad", "coral", "echo", "sage", "shimmer", "verse"] as const;
+export const VAD_TYPES = ["semantic_vad", "server_vad"] as const;
+export const VAD_EAGERNESS = ["low", "medium", "high", "auto"] as const;
+export const VOICEMAIL_POLICIES = ["hangup", "ai", "message"] as const;
+export const AMD_MODES = ["sync", "async"] as const;
+export const DTMF_SEND_MODES = ["inband", "twilio"] as const;
 
 export const TwilioConfigSchema = z.object({
   accountSid: z.string().regex(/^AC[a-f0-9]{32}$/, "Invalid Twilio Account SID"),
@@ -9,14 +19,12 @@ export const TwilioConfigSchema = z.object({
 export const OpenAIConfigSchema = z.object({
   apiKey: z.string().min(1, "OpenAI API key is required"),
   model: z.string().default("gpt-realtime-1.5"),
-  voice: z
-    .enum(["alloy", "ash", "ballad", "coral", "echo", "sage", "shimmer", "verse"])
-    .default("coral"),
+  voice: z.enum(OPENAI_VOICES).default("coral"),
 });
 
 export const VadConfigSchema = z.object({
-  type: z.enum(["semantic_vad", "server_vad"]).default("semantic_vad"),
-  eagerness: z.enum(["low", "medium", "high", "auto"]).default("medium"),
+  type: z.enum(VAD_TYPES).default("semantic_vad"),
+  eagerness: z.enum(VAD_EAGERNESS).default("medium"),
 });
 
 export const ServerConfigSchema = z.object({
@@ -24,13 +32,59 @@ export const ServerConfigSchema = z.object({
   bind: z.string().default("127.0.0.1"),
 });
 
-export const CallsConfigSchema = z.object({
-  maxDurationSeconds: z.number().int().min(60).default(600),
-  timeoutSeconds: z.number().int().min(10).default(30),
-  enableAmd: z.boolean().default(true),
-  maxConcurrent: z.number().int().min(1).max(50).default(5),
+export const RetryConfigSchema = z.object({
+  /** Total attempts including the first call; 1 disables retries. */
+  maxAttempts: z.number().int().min(1).max(10).default(1),
+  backoffSeconds: z.number().int().min(10).default(120),
+  backoffMultiplier: z.number().min(1).max(10).default(2),
+  retryOn: z.array(z.enum(["no-answer", "busy", "failed"])).default(["no-answer", "busy"]),
+  voicemailCountsAsDone: z.boolean().default(true),
+});
+
+export const QueueConfigSchema = z.object({
+  /** Queue outbound calls when all lines are busy instead of rejecting them. */
+  enabled: z.boolean().default(false),
+  maxSize: z.number().int().min(1).max(1000).default(50),
+  maxWaitSeconds: z.number().int().min(10).default(600),
 });
 
+export const CallsConfigSchema = z
+  .object({
+    maxDurationSeconds: z.number().int().min(60).default(600),
+    timeoutSeconds: z.number().int().min(10).default(30),
+    enableAmd: z.boolean().default(true),
+    /**
+     * sync: Twilio holds the answer until AMD decides, so the person hears
+     * silence. async: the stream connects right away and the verdict arrives
+     * mid-call at /voice/amd.
+     */
+    amdMode: z.enum(AMD_MODES).default("sync"),
+    /** How long AMD may listen; defaults to 8s, or 30s when waiting for a voicemail beep. */
+    amdTimeoutSeconds: z.number().int().min(3).max(59).optional(),
+    /**
+     * machine_start answers: in sync mode, the pause before bridging so the
+     * greeting can play out. Neither mode hangs up on machine_start, since a
+     * person with a long hello triggers it too; in async mode the call is
+     * already bridged and this has no effect.
+     */
+    machineStartGraceSeconds: z.number().int().min(0).max(30).default(6),
+    maxConcurrent: z.number().int().min(1).max(50).default(5),
+    /** Lines held back for inbound calls; outbound calls use maxConcurrent minus this. */
+    reservedInboundLines: z.number().int().min(0).default(0),
+    deliverResults: z.boolean().default(true),
+    retry: RetryConfigSchema.default({}),
+    queue: QueueConfigSchema.default({}),
+  })
+  .superRefine((calls, ctx) => {
+    if (calls.reservedInboundLines >= calls.maxConcurrent) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["reservedInboundLines"],
+        message: "Must be less than maxConcurrent",
+      });
+    }
+  });
+
 export const InboundConfigSchema = z.object({
   enabled: z.boolean().default(false),
   policy: z.enum(["disabled", "open", "allowlist"]).default("disabled"),
@@ -39,32 +93,382 @@ export const InboundConfigSchema = z.object({
   systemPrompt: z.string().optional(),
 });
 
-export const PluginConfigSchema = z.object({
-  twilio: TwilioConfigSchema,
-  fromNumber: z.string().regex(/^\+[1-9]\d{1,14}$/, "Phone number must be E.164 format"),
-  openai: OpenAIConfigSchema,
-  vad: VadConfigSchema.default({}),
-  publicUrl: z.string().url("Public URL must be a valid URL").transform((value, ctx) => {
-    try {
-      return normalizeAndValidatePublicUrl(value);
-    } catch (err) {
+export const SummaryConfigSchema = z.object({
+  /**
+   * Infer an outcome from the transcript when a call ends without
+   * report_outcome. Off by default: it sends the transcript and tool calls
+   * to an OpenAI chat model.
+   */
+  enabled: z.boolean().default(false),
+  /** OpenAI chat model used for post-call summaries. */
+  model: z.string().trim().min(1).default("gpt-4o-mini"),
+  timeoutSeconds: z.number().int().min(5).max(120).default(30),
+});
+
+export const StorageConfigSchema = z.object({
+  retentionDays: z.number().int().min(1).default(90),
+  maxRecords: z.number().int().min(10).default(5000),
+});
+
+export const RecordingConfigSchema = z.object({
+  /** Save a stereo WAV of every call (other party left, AI right). Independent of debug mode. */
+  enabled: z.boolean().default(false),
+  retentionDays: z.number().int().min(1).default(30),
+  maxRecordings: z.number().int().min(1).default(500),
+});
+
+export const OutboundPolicyConfigSchema = z.object({
+  /** E.164 country code prefixes outbound calls may go to (e.g. "+1", "+44"); empty allows any. */
+  allowedCountryCodes: z
+    .array(z.string().regex(/^\+[1-9]\d{0,3}$/, "Country code must be + followed by 1-4 digits, e.g. +1 or +44"))
+    .default([]),
+  /** Regular expressions matched against the E.164 number; a match blocks the call. */
+  denyPatterns: z
+    .array(
+      z.string().refine((pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      }, "Deny pattern must be a valid regular expression")
+    )
+    // NANP 900/976 and UK 09 premium-rate numbers
+    .default(["^\\+1(900|976)", "^\\+449"]),
+  rateLimit: z
+    .object({
+      /** Calls to the same number allowed per window; 0 disables the limit. */
+      maxCallsPerNumber: z.number().int().min(0).default(5),
+      windowMinutes: z.number().int().min(1).default(60),
+    })
+    .default({}),
+});
+
+export const RedactionConfigSchema = z.object({
+  /** Redact PII from logs, debug files, stored call records and delivered results. */
+  enabled: z.boolean().default(false),
+  /** Built-in patterns to apply. */
+  patterns: z.array(z.enum(REDACTION_PATTERNS)).default([...REDACTION_PATTERNS]),
+  custom: z
+    .array(
+      z
+        .object({
+          name: z.string().regex(/^[a-z][a-z0-9_-]{0,31}$/, "Pattern name must be lowercase letters, digits, _ or -"),
+          /** JavaScript regular expression source. */
+          pattern: z.string().min(1),
+          flags: z.string().regex(/^[gimsuy]*$/, "Regex flags may only use g, i, m, s, u, y").default(""),
+        })
+        .superRefine((custom, ctx) => {
+          try {
+            new RegExp(custom.pattern, custom.flags);
+          } catch (err) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ["pattern"],
+              message: err instanceof Error ? err.message : String(err),
+            });
+          }
+        })
+    )
+    .default([]),
+  /** Also keep unredacted call records in calls-unredacted.jsonl (same retention as the call store). */
+  keepUnredacted: z.boolean().default(false),
+});
+
+export const ConsentRuleSchema = z.object({
+  /** E.164 prefix of the other party's number: a country code ("+49") or area code ("+1415"). */
+  prefix: z.string().regex(/^\+\d{1,15}$/, "Consent rule prefix must be + followed by digits, e.g. +49 or +1415"),
+  allowRecording: z.boolean(),
+});
+
+export const ConsentConfigSchema = z.object({
+  /** Spoken at the start of every recorded call; empty disables the disclosure. */
+  disclosure: z.string().trim().max(500).default("Just so you know, this call is being recorded."),
+  /** Whether calls to numbers no rule matches may be recorded. */
+  allowRecordingByDefault: z.boolean().default(true),
+  rules: z.array(ConsentRuleSchema).default([]),
+});
+
+/** E.164 phone number or SIP URI a live call can be handed to. */
+export const TRANSFER_TARGET_PATTERN = /^(\+[1-9]\d{1,14}|sips?:[^\s<>"]+@[^\s<>"]+)$/;
+
+export const TransferConfigSchema = z
+  .object({
+    enabled: z.boolean().default(false),
+    target: z
+      .string()
+      .trim()
+      .regex(TRANSFER_TARGET_PATTERN, "Transfer target must be an E.164 number or a sip: URI")
+      .optional(),
+    /** Spoken by Twilio to the callee before dialing the target. */
+    announcement: z.string().max(300).default("Please hold while I connect you."),
+    timeoutSeconds: z.number().int().min(5).max(120).default(30),
+  })
+  .superRefine((transfer, ctx) => {
+    if (transfer.enabled && !transfer.target) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        message: err instanceof Error ? err.message : String(err),
+        path: ["target"],
+        message: "Required when transfer.enabled is true",
       });
-      return z.NEVER;
     }
-  }),
-  server: ServerConfigSchema.default({}),
-  calls: CallsConfigSchema.default({}),
-  inbound: InboundConfigSchema.default({}),
-  debug: z.boolean().default(false),
+  });
+
+export const DtmfConfigSchema = z.object({
+  /** Pass keys the other person presses on their keypad to the voice model. */
+  forwardToModel: z.boolean().default(true),
+  /** Offer the voice model a collect_digits tool that waits for keypad entry. */
+  collectDigits: z.boolean().default(true),
+  /** Longest a single collect_digits call may wait. */
+  maxCollectSeconds: z.number().int().min(1).max(120).default(30),
+  /**
+   * How send_dtmf presses keys: generated tones on the media stream, or
+   * Twilio's own <Play digits>, which briefly restarts the media stream.
+   */
+  sendMode: z.enum(DTMF_SEND_MODES).default("inband"),
+  /** Length of each generated tone (inband mode). */
+  toneDurationMs: z.number().int().min(40).max(1000).default(200),
+  /** Silence between generated tones (inband mode). */
+  gapMs: z.number().int().min(40).max(1000).default(100),
+  /** Level of each tone frequency in dBm0 (inband mode). */
+  levelDbm0: z.number().min(-20).max(0).default(-7),
 });
 
+export const VoicemailConfigSchema = z
+  .object({
+    /**
+     * What to do when answering machine detection hears voicemail: hang up,
+     * have the voice model leave a message from the call brief, or play
+     * voicemail.message. Anything but hangup waits for the beep; a greeting
+     * that ends without one is still hung up on.
+     */
+    policy: z.enum(VOICEMAIL_POLICIES).default("hangup"),
+    /** Fixed message read out by Twilio after the beep with the "message" policy. */
+    message: z.string().trim().min(1).max(1000).optional(),
+  })
+  .superRefine((voicemail, ctx) => {
+    if (voicemail.policy === "message" && !voicemail.message) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["message"],
+        message: "Required when voicemail.policy is message",
+      });
+    }
+  });
+
+export const ConsultConfigSchema = z.object({
+  /** Offer the voice model an ask_agent tool on calls placed from an agent session. */
+  enabled: z.boolean().default(true),
+  timeoutSeconds: z.number().int().min(10).max(300).default(60),
+  /** How often the voice model reassures the other person while waiting; 0 disables. */
+  fillerIntervalSeconds: z.number().int().min(0).max(60).default(10),
+});
+
+export const WebhookToolSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/, "Tool name must use letters, digits, _ or - (max 64 chars)"),
+  description: z.string().min(1, "Tool description is required"),
+  /** JSON Schema for the tool arguments. */
+  parameters: z.record(z.unknown()).default({ type: "object", properties: {} }),
+  url: z
+    .string()
+    .url("Tool URL must be a valid URL")
+    .refine((value) => {
+      const url = new URL(value);
+      return url.protocol === "https:" || ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+    }, "Tool URL must use https (plain http is only allowed for localhost)"),
+  headers: z.record(z.string()).default({}),
+  timeoutSeconds: z.number().int().min(1).max(60).optional(),
+});
+
+export const CustomToolsConfigSchema = z.object({
+  /** Default handler timeout for custom voice tools. */
+  timeoutSeconds: z.number().int().min(1).max(60).default(10),
+  webhooks: z.array(WebhookToolSchema).default([]),
+});
+
+export const MonitorConfigSchema = z
+  .object({
+    /** Serve live call events at /monitor/calls/:callId/events. */
+    enabled: z.boolean().default(false),
+    /** Bearer token operators must present; required when enabled. */
+    token: z.string().min(16, "Monitor token must be at least 16 characters").optional(),
+  })
+  .superRefine((monitor, ctx) => {
+    if (monitor.enabled && !monitor.token) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["token"],
+        message: "Required when monitor.enabled is true",
+      });
+    }
+  });
+
+export const PluginConfigSchema = z
+  .object({
+    twilio: TwilioConfigSchema,
+    fromNumber: z.string().regex(/^\+[1-9]\d{1,14}$/, "Phone number must be E.164 format"),
+    openai: OpenAIConfigSchema,
+    vad: VadConfigSchema.default({}),
+    publicUrl: z.string().url("Public URL must be a valid URL").transform((value, ctx) => {
+      try {
+        return normalizeAndValidatePublicUrl(value);
+      } catch (err) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: err instanceof Error ? err.message : String(err),
+        });
+        return z.NEVER;
+      }
+    }),
+    server: ServerConfigSchema.default({}),
+    calls: CallsConfigSchema.default({}),
+    inbound: InboundConfigSchema.default({}),
+    transfer: TransferConfigSchema.default({}),
+    voicemail: VoicemailConfigSchema.default({}),
+    dtmf: DtmfConfigSchema.default({}),
+    consult: ConsultConfigSchema.default({}),
+    summary: SummaryConfigSchema.default({}),
+    customTools: CustomToolsConfigSchema.default({}),
+    storage: StorageConfigSchema.default({}),
+    recording: RecordingConfigSchema.default({}),
+    consent: ConsentConfigSchema.default({}),
+    redaction: RedactionConfigSchema.default({}),
+    outbound: OutboundPolicyConfigSchema.default({}),
+    monitor: MonitorConfigSchema.default({}),
+    debug: z.boolean().default(false),
+  })
+  .superRefine((config, ctx) => {
+    // The voice model transfers to transfer.target, so it must pass the outbound policy too
+    const target = config.transfer.target;
+    if (!target || /^sips?:/i.test(target)) return;
+    let policy: OutboundPolicy;
+    try {
+      policy = new OutboundPolicy(config.outbound);
+    } catch {
+      return; // Invalid outbound.denyPatterns are reported on their own
+    }
+    const destination = policy.checkDestination(target);
+    if (!destination.ok) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transfer", "target"], message: destination.message });
+    }
+  });
+
 export type PluginConfig = z.infer<typeof PluginConfigSchema>;
 export type TwilioConfig = z.infer<typeof TwilioConfigSchema>;
 export type OpenAIConfig = z.infer<typeof OpenAIConfigSchema>;
+export type ConsentConfig = z.infer<typeof ConsentConfigSchema>;
+export type RedactionConfig = z.infer<typeof RedactionConfigSchema>;
+export type OutboundPolicyConfig = z.infer<typeof OutboundPolicyConfigSchema>;
 
 export function parseConfig(raw: unknown): PluginConfig {
   return PluginConfigSchema.parse(raw);
 }
+
+/**
+ * Per-call overrides accepted from the CLI, gateway, and agent tool.
+ * Anything omitted falls back to the global PluginConfig.
+ */
+export const CallOverridesSchema = z.object({
+  voice: z.enum(OPENAI_VOICES).optional(),
+  model: z.string().trim().min(1).optional(),
+  vadType: z.enum(VAD_TYPES).optional(),
+  vadEagerness: z.enum(VAD_EAGERNESS).optional(),
+  maxDurationSeconds: z.number().int().min(60).optional(),
+  enableAmd: z.boolean().optional(),
+  voicemail: z.enum(VOICEMAIL_POLICIES).optional(),
+  voicemailMessage: z.string().trim().min(1).max(1000).optional(),
+  /** ISO 639-1 language code (e.g. "en", "es") for transcription and the conversation. */
+  language: z
+    .string()
+    .trim()
+    .regex(/^[a-z]{2}$/i, "Must be an ISO 639-1 language code (e.g. en, es)")
+    .transform((value) => value.toLowerCase())
+    .optional(),
+  /** Custom voice tools this call may use; omitted means all registered tools. */
+  tools: z.array(z.string().trim().min(1)).max(50).optional(),
+  /** JSON Schema for report_outcome details on this call. */
+  outcomeSchema: z
+    .record(z.unknown())
+    .superRefine((schema, ctx) => {
+      const error = checkOutcomeSchema(schema);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    })
+    .optional(),
+});
+
+export type CallOverrides = z.infer<typeof CallOverridesSchema>;
+
+/** Effective settings for a single call after applying overrides. */
+export interface CallSettings {
+  model: string;
+  voice: (typeof OPENAI_VOICES)[number];
+  vad: {
+    type: (typeof VAD_TYPES)[number];
+    eagerness: (typeof VAD_EAGERNESS)[number];
+  };
+  maxDurationSeconds: number;
+  enableAmd: boolean;
+  voicemail: {
+    policy: (typeof VOICEMAIL_POLICIES)[number];
+    message?: string;
+  };
+  language?: string;
+  tools?: string[];
+  outcomeSchema?: OutcomeSchema;
+}
+
+/**
+ * Pick and validate override fields from raw call params. Per-call max
+ * duration may shorten, but never extend, the configured limit.
+ */
+export function parseCallOverrides(
+  raw: Record<string, unknown>,
+  config: PluginConfig
+): { ok: true; overrides: CallOverrides } | { ok: false; error: string } {
+  const picked: Record<string, unknown> = {};
+  for (const key of Object.keys(CallOverridesSchema.shape)) {
+    if (raw[key] !== undefined && raw[key] !== null) picked[key] = raw[key];
+  }
+
+  const parsed = CallOverridesSchema.safeParse(picked);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+    };
+  }
+
+  const { maxDurationSeconds, voicemail, voicemailMessage } = parsed.data;
+  if ((voicemail ?? config.voicemail.policy) === "message" && !(voicemailMessage ?? config.voicemail.message)) {
+    return { ok: false, error: "voicemailMessage: required when the voicemail policy is message" };
+  }
+  if (maxDurationSeconds !== undefined && maxDurationSeconds > config.calls.maxDurationSeconds) {
+    return {
+      ok: false,
+      error: `maxDurationSeconds: must not exceed the configured limit of ${config.calls.maxDurationSeconds}`,
+    };
+  }
+
+  return { ok: true, overrides: parsed.data };
+}
+
+export function resolveCallSettings(config: PluginConfig, overrides: CallOverrides = {}): CallSettings {
+  return {
+    model: overrides.model ?? config.openai.model,
+    voice: overrides.voice ?? config.openai.voice,
+    vad: {
+      type: overrides.vadType ?? config.vad.type,
+      eagerness: overrides.vadEagerness ?? config.vad.eagerness,
+    },
+    maxDurationSeconds: overrides.maxDurationSeconds ?? config.calls.maxDurationSeconds,
+    enableAmd: overrides.enableAmd ?? config.calls.enableAmd,
+    voicemail: {
+      policy: overrides.voicemail ?? config.voicemail.policy,
+      message: overrides.voicemailMessage ?? config.voicemail.message,
+    },
+    language: overrides.language,
+    tools: overrides.tools,
+    outcomeSchema: overrides.outcomeSchema,
+  };
+}
@@ -0,0 +1,23 @@
+import type { ConsentConfig } from "./config.ts";
+
+export interface RecordingConsentDecision {
+  allowed: boolean;
+  /** Prefix of the consent rule that decided, if any matched. */
+  rule?: string;
+}
+
+/**
+ * Decide whether a call with this remote party may be recorded.
+ *
+ * Rules are E.164 prefixes (a country code like "+49" or an area code like
+ * "+1415"); the longest matching prefix wins, otherwise
+ * consent.allowRecordingByDefault applies.
+ */
+export function resolveRecordingConsent(consent: ConsentConfig, remoteNumber: string | undefined): RecordingConsentDecision {
+  const number = remoteNumber?.replace(/[^\d+]/g, "") ?? "";
+  let match: ConsentConfig["rules"][number] | undefined;
+  for (const rule of consent.rules) {
+    if (number.startsWith(rule.prefix) && (!match || rule.prefix.length > match.prefix.length)) match = rule;
+  }
+  return match ? { allowed: match.allowRecording, rule: match.prefix } : { allowed: consent.allowRecordingByDefault };
+}
@@ -0,0 +1,111 @@
+/**
+ * Mid-call questions from the voice model to the OpenClaw agent that placed
+ * the call.
+ *
+ * The question is pushed into the agent's session as a system event; the
+ * agent replies with the answer_call_question tool (or the voicecall-rt.answer
+ * gateway method), which resolves the voice model's pending ask_agent call.
+ */
+
+type SessionNotifier = (sessionKey: string, text: string) => boolean;
+
+export interface PendingQuestion {
+  questionId: string;
+  callId: string;
+  question: string;
+  askedAt: number;
+}
+
+export type ConsultResult =
+  | { status: "answered"; answer: string }
+  | { status: "timeout" }
+  | { status: "undeliverable" }
+  | { status: "cancelled" };
+
+interface PendingEntry extends PendingQuestion {
+  resolve: (result: ConsultResult) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class AgentConsultBroker {
+  private pending = new Map<string, PendingEntry>();
+  private notify: SessionNotifier;
+
+  constructor(notify: SessionNotifier) {
+    this.notify = notify;
+  }
+
+  /**
+   * Ask the agent session a question on behalf of a live call and wait for
+   * the answer. Only one question per call can be open at a time.
+   */
+  ask(
+    call: { callId: string; to: string; sessionKey?: string },
+    question: string,
+    timeoutMs: number
+  ): Promise<ConsultResult> {
+    if (!call.sessionKey) return Promise.resolve({ status: "undeliverable" });
+
+    // A newer question supersedes one the agent never answered
+    this.cancel(call.callId);
+
+    const questionId = `q_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    return new Promise((resolve) => {
+      const entry: PendingEntry = {
+        questionId,
+        callId: call.callId,
+        question,
+        askedAt: Date.now(),
+        resolve,
+        timer: setTimeout(() => this.settle(call.callId, { status: "timeout" }), timeoutMs),
+      };
+      this.pending.set(call.callId, entry);
+
+      const delivered = this.notify(
+        call.sessionKey!,
+        [
+          `[voice-rt] The voice agent on phone call ${call.callId} to ${call.to} needs your input:`,
+          `"${question}"`,
+          `Reply with the answer_call_question tool (callId: ${call.callId}) within ${Math.round(timeoutMs / 1000)}s. ` +
+            "The other person is waiting on the line.",
+        ].join("\n")
+      );
+      if (!delivered) this.settle(call.callId, { status: "undeliverable" });
+    });
+  }
+
+  /** Resolve the open question on a call. Returns undefined if none is pending. */
+  answer(callId: string, answer: string): PendingQuestion | undefined {
+    const entry = this.pending.get(callId);
+    if (!entry) return undefined;
+    this.settle(callId, { status: "answered", answer });
+    return toPendingQuestion(entry);
+  }
+
+  /** Drop the open question on a call, e.g. because the call ended. */
+  cancel(callId: string): void {
+    this.settle(callId, { status: "cancelled" });
+  }
+
+  get(callId: string): PendingQuestion | undefined {
+    const entry = this.pending.get(callId);
+    return entry ? toPendingQuestion(entry) : undefined;
+  }
+
+  private settle(callId: string, result: ConsultResult): void {
+    const entry = this.pending.get(callId);
+    if (!entry) return;
+    this.pending.delete(callId);
+    clearTimeout(entry.timer);
+    entry.resolve(result);
+  }
+}
+
+function toPendingQuestion(entry: PendingEntry): PendingQuestion {
+  return {
+    questionId: entry.questionId,
+    callId: entry.callId,
+    question: entry.question,
+    askedAt: entry.askedAt,
+  };
+}
@@ -1,6 +1,7 @@
 import { mkdirSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
+import { redactor } from "./redaction.ts";
 
 const RECORDINGS_DIR = join(homedir(), ".openclaw", "voice-calls-realtime", "recordings");
 
@@ -20,10 +21,13 @@ export class DebugRecorder {
   private events: Array<{ ts: number; source: string; type: string; detail?: string }> = [];
   private startTime: number;
   private lastSpeechEnd: number | null = null;
+  private recordAudio: boolean;
 
-  constructor(callId: string, enabled: boolean) {
+  constructor(callId: string, enabled: boolean, recordAudio = true) {
     this.callId = callId;
     this.enabled = enabled;
+    // Consent rules can forbid capturing audio even in debug mode
+    this.recordAudio = recordAudio;
     this.startTime = Date.now();
 
     if (enabled) {
@@ -31,14 +35,16 @@ export class DebugRecorder {
     }
   }
 
-  logTwilio(eventType: string, detail?: string): void {
+  logTwilio(eventType: string, rawDetail?: string): void {
     if (!this.enabled) return;
+    const detail = redactDetail(rawDetail);
     this.events.push({ ts: Date.now(), source: "twilio", type: eventType, detail });
     console.log(`${CYAN}[twilio]${RESET} ${DIM}${this.elapsed()}${RESET} ${eventType}${detail ? ` ${detail}` : ""}`);
   }
 
-  logOpenAI(eventType: string, detail?: string): void {
+  logOpenAI(eventType: string, rawDetail?: string): void {
     if (!this.enabled) return;
+    const detail = redactDetail(rawDetail);
     this.events.push({ ts: Date.now(), source: "openai", type: eventType, detail });
     console.log(`${GREEN}[openai]${RESET} ${DIM}${this.elapsed()}${RESET} ${eventType}${detail ? ` ${detail}` : ""}`);
 
@@ -52,25 +58,26 @@ export class DebugRecorder {
     }
   }
 
-  logTool(toolName: string, detail?: string): void {
+  logTool(toolName: string, rawDetail?: string): void {
     if (!this.enabled) return;
+    const detail = redactDetail(rawDetail);
     this.events.push({ ts: Date.now(), source: "tool", type: toolName, detail });
     console.log(`${YELLOW}[tool]${RESET} ${DIM}${this.elapsed()}${RESET} ${toolName}${detail ? ` ${detail}` : ""}`);
   }
 
   logError(message: string, error?: unknown): void {
-    const detail = error instanceof Error ? error.message : error ? String(error) : undefined;
+    const detail = redactDetail(error instanceof Error ? error.message : error ? String(error) : undefined);
     this.events.push({ ts: Date.now(), source: "error", type: message, detail });
     console.error(`${RED}[error]${RESET} ${DIM}${this.elapsed()}${RESET} ${message}${detail ? `: ${detail}` : ""}`);
   }
 
   recordInbound(audioBase64: string): void {
-    if (!this.enabled) return;
+    if (!this.enabled || !this.recordAudio) return;
     this.inboundChunks.push(Buffer.from(audioBase64, "base64"));
   }
 
   recordOutbound(audioBase64: string): void {
-    if (!this.enabled) return;
+    if (!this.enabled || !this.recordAudio) return;
     this.outboundChunks.push(Buffer.from(audioBase64, "base64"));
   }
 
@@ -110,7 +117,8 @@ export class DebugRecorder {
 
     // Save transcript
     const transcriptPath = `${basePath}-transcript.json`;
-    writeFileSync(transcriptPath, JSON.stringify({ callId: this.callId, transcript, events: this.events }, null, 2), {
+    const redacted = transcript.map((entry) => ({ ...entry, text: redactor.text(entry.text) }));
+    writeFileSync(transcriptPath, JSON.stringify({ callId: this.callId, transcript: redacted, events: this.events }, null, 2), {
       mode: 0o600,
     });
     console.log(`${GREEN}[debug]${RESET} Saved transcript: ${transcriptPath}`);
@@ -126,10 +134,15 @@ export class DebugRecorder {
   }
 }
 
+function redactDetail(detail: string | undefined): string | undefined {
+  return detail !== undefined ? redactor.text(detail) : undefined;
+}
+
 /**
- * Create a WAV file from mu-law PCM data (8kHz, mono, 8-bit mu-law).
+ * Create a WAV file from mu-law PCM data (8kHz, 8-bit mu-law). Multi-channel
+ * data must already be interleaved.
  */
-function createMulawWav(mulawData: Uint8Array): Uint8Array {
+export function createMulawWav(mulawData: Uint8Array, channels = 1): Uint8Array {
   const dataSize = mulawData.byteLength;
   const headerSize = 44;
   const fileSize = headerSize + dataSize;
@@ -145,10 +158,10 @@ function createMulawWav(mulawData: Uint8Array): Uint8Array {
   buffer.set([0x66, 0x6d, 0x74, 0x20], 12); // "fmt "
   view.setUint32(16, 16, true); // chunk size
   view.setUint16(20, 7, true); // mu-law format (7)
-  view.setUint16(22, 1, true); // mono
+  view.setUint16(22, channels, true); // channels
   view.setUint32(24, 8000, true); // sample rate
-  view.setUint32(28, 8000, true); // byte rate
-  view.setUint16(32, 1, true); // block align
+  view.setUint32(28, 8000 * channels, true); // byte rate
+  view.setUint16(32, channels, true); // block align
   view.setUint16(34, 8, true); // bits per sample
 
   // data chunk
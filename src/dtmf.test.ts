@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_DTMF_OPTIONS, generateDtmfSequence, generateDtmfTone, generateSilence } from "./dtmf.ts";
+import { MULAW_SILENCE, decodeMulaw } from "./g711.ts";
+
+const SAMPLES_PER_MS = 8;
+const ROW_FREQUENCIES = [697, 770, 852, 941];
+const COLUMN_FREQUENCIES = [1209, 1336, 1477, 1633];
+
+function decode(base64: string): Int16Array {
+  return decodeMulaw(Buffer.from(base64, "base64"));
+}
+
+/** Amplitude of one frequency in the signal (Goertzel). */
+function amplitudeAt(samples: Int16Array, frequency: number): number {
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / 8000);
+  let s1 = 0;
+  let s2 = 0;
+  for (const sample of samples) {
+    const s = sample + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s;
+  }
+  return (Math.sqrt(s1 * s1 + s2 * s2 - coeff * s1 * s2) * 2) / samples.length;
+}
+
+function strongest(samples: Int16Array, frequencies: number[]): number {
+  return frequencies.reduce((best, f) => (amplitudeAt(samples, f) > amplitudeAt(samples, best) ? f : best));
+}
+
+describe("generateDtmfTone", () => {
+  test.each([
+    ["1", 697, 1209],
+    ["5", 770, 1336],
+    ["9", 852, 1477],
+    ["#", 941, 1477],
+    ["D", 941, 1633],
+  ])("%s uses its row and column frequencies", (digit, row, column) => {
+    const samples = decode(generateDtmfTone(digit));
+    expect(strongest(samples, ROW_FREQUENCIES)).toBe(row);
+    expect(strongest(samples, COLUMN_FREQUENCIES)).toBe(column);
+  });
+
+  test("has the default length", () => {
+    expect(decode(generateDtmfTone("1")).length).toBe(DEFAULT_DTMF_OPTIONS.durationMs * SAMPLES_PER_MS);
+  });
+
+  test("plays each frequency at the requested level", () => {
+    // Peak amplitude of a sine at L dBm0 is 32124 * 10^((L - 3.17) / 20)
+    for (const levelDbm0 of [-7, -12]) {
+      const expected = 32124 * Math.pow(10, (levelDbm0 - 3.17) / 20);
+      const samples = decode(generateDtmfTone("5", { levelDbm0 }));
+      expect(Math.abs(amplitudeAt(samples, 770) - expected) / expected).toBeLessThan(0.05);
+    }
+  });
+
+  test("accepts lowercase A-D and rejects other characters", () => {
+    expect(generateDtmfTone("a")).toBe(generateDtmfTone("A"));
+    expect(() => generateDtmfTone("E")).toThrow("Invalid DTMF digit");
+  });
+});
+
+describe("generateDtmfSequence", () => {
+  test("alternates tones and gaps of the configured lengths", () => {
+    const chunks = generateDtmfSequence("12#", { durationMs: 80, gapMs: 50 });
+    expect(chunks.map((chunk) => Buffer.from(chunk, "base64").length)).toEqual([
+      80 * SAMPLES_PER_MS,
+      50 * SAMPLES_PER_MS,
+      80 * SAMPLES_PER_MS,
+      50 * SAMPLES_PER_MS,
+      80 * SAMPLES_PER_MS,
+    ]);
+  });
+
+  test("gaps are μ-law silence and there is no trailing gap", () => {
+    const chunks = generateDtmfSequence("12");
+    expect(chunks).toHaveLength(3);
+    expect(chunks[1]).toBe(generateSilence(DEFAULT_DTMF_OPTIONS.gapMs));
+    expect(Buffer.from(chunks[1], "base64").every((byte) => byte === MULAW_SILENCE)).toBe(true);
+  });
+});
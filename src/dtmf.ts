@@ -2,10 +2,12 @@
  * DTMF tone generation as mu-law 8kHz audio for Twilio media streams.
  *
  * Each DTMF tone is a combination of two sine wave frequencies from the
- * standard telephony matrix. Generated as PCM, converted to mu-law,
- * and base64 encoded for transmission over the Twilio WebSocket.
+ * standard telephony matrix. Generated as PCM, converted to mu-law with the
+ * G.711 codec, and base64 encoded for transmission over the Twilio WebSocket.
  */
 
+import { MULAW_SILENCE, linearToMulaw } from "./g711.ts";
+
 const DTMF_FREQUENCIES: Record<string, [number, number]> = {
   "1": [697, 1209],
   "2": [697, 1336],
@@ -26,58 +28,68 @@ const DTMF_FREQUENCIES: Record<string, [number, number]> = {
 };
 
 const SAMPLE_RATE = 8000;
-const TONE_DURATION_MS = 200;
-const TONE_AMPLITUDE = 0.5;
-
-/**
- * Convert a 16-bit linear PCM sample to 8-bit mu-law.
- */
-function linearToMulaw(sample: number): number {
-  const MU = 255;
-  const MAX = 32768;
-
-  // Clamp
-  sample = Math.max(-MAX, Math.min(MAX - 1, sample));
-
-  const sign = sample < 0 ? 0x80 : 0;
-  const magnitude = Math.abs(sample);
-
-  // Mu-law compression
-  const compressed = Math.log1p((magnitude / MAX) * MU) / Math.log1p(MU);
-  const quantized = Math.floor(compressed * 127);
+// Peak of a full-scale μ-law sine, which G.711 defines as +3.17 dBm0
+const FULL_SCALE_PEAK = 32124;
+const FULL_SCALE_DBM0 = 3.17;
+// Short fade in/out so the tone edges don't splatter into other frequencies
+const RAMP_MS = 2;
 
-  return ~(sign | quantized) & 0xff;
+export interface DtmfToneOptions {
+  /** Tone length per digit. */
+  durationMs: number;
+  /** Silence between digits. */
+  gapMs: number;
+  /** Level of each of the two frequencies, in dBm0. */
+  levelDbm0: number;
 }
 
+export const DEFAULT_DTMF_OPTIONS: DtmfToneOptions = {
+  durationMs: 200,
+  gapMs: 100,
+  levelDbm0: -7,
+};
+
 /**
  * Generate a DTMF tone as base64-encoded mu-law audio.
  */
-export function generateDtmfTone(digit: string): string {
+export function generateDtmfTone(digit: string, options: Partial<DtmfToneOptions> = {}): string {
   const freqs = DTMF_FREQUENCIES[digit.toUpperCase()];
   if (!freqs) {
     throw new Error(`Invalid DTMF digit: ${digit}`);
   }
 
+  const { durationMs, levelDbm0 } = { ...DEFAULT_DTMF_OPTIONS, ...options };
   const [f1, f2] = freqs;
-  const numSamples = Math.floor(SAMPLE_RATE * (TONE_DURATION_MS / 1000));
+  const amplitude = FULL_SCALE_PEAK * Math.pow(10, (levelDbm0 - FULL_SCALE_DBM0) / 20);
+  const numSamples = Math.floor(SAMPLE_RATE * (durationMs / 1000));
+  const rampSamples = Math.min(Math.floor((SAMPLE_RATE * RAMP_MS) / 1000), Math.floor(numSamples / 2));
   const buffer = new Uint8Array(numSamples);
 
   for (let i = 0; i < numSamples; i++) {
     const t = i / SAMPLE_RATE;
-    const pcm =
-      (Math.sin(2 * Math.PI * f1 * t) + Math.sin(2 * Math.PI * f2 * t)) *
-      TONE_AMPLITUDE *
-      16384; // Scale to 16-bit range
-    buffer[i] = linearToMulaw(Math.round(pcm));
+    const edge = Math.min(i, numSamples - 1 - i);
+    const envelope = edge < rampSamples ? edge / rampSamples : 1;
+    const pcm = (Math.sin(2 * Math.PI * f1 * t) + Math.sin(2 * Math.PI * f2 * t)) * amplitude * envelope;
+    buffer[i] = linearToMulaw(pcm);
   }
 
   return Buffer.from(buffer).toString("base64");
 }
 
+/**
+ * Generate mu-law silence as base64, e.g. for the gap between tones.
+ */
+export function generateSilence(durationMs: number): string {
+  return Buffer.alloc(Math.floor(SAMPLE_RATE * (durationMs / 1000)), MULAW_SILENCE).toString("base64");
+}
+
 /**
  * Generate a sequence of DTMF tones with gaps between them.
- * Returns an array of base64-encoded mu-law audio chunks.
+ * Returns an array of base64-encoded mu-law audio chunks, alternating tone
+ * and silence (no trailing gap).
  */
-export function generateDtmfSequence(digits: string): string[] {
-  return digits.split("").map((d) => generateDtmfTone(d));
+export function generateDtmfSequence(digits: string, options: Partial<DtmfToneOptions> = {}): string[] {
+  const { gapMs } = { ...DEFAULT_DTMF_OPTIONS, ...options };
+  const gap = generateSilence(gapMs);
+  return digits.split("").flatMap((d, i) => (i === 0 ? [generateDtmfTone(d, options)] : [gap, generateDtmfTone(d, options)]));
 }
@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ALAW_SILENCE,
+  MULAW_SILENCE,
+  alawToLinear,
+  decodeAlaw,
+  decodeMulaw,
+  encodeAlaw,
+  encodeMulaw,
+  linearToAlaw,
+  linearToMulaw,
+  mulawToLinear,
+} from "./g711.ts";
+
+// Reference values from the ITU-T G.191 (STL) g711 module
+const MULAW_ENCODE: [number, number][] = [
+  [0, 0xff],
+  [1, 0xff],
+  [-1, 0x7f],
+  [32767, 0x80],
+  [32124, 0x80],
+  [-32768, 0x00],
+  // Last and first sample of each segment
+  [123, 0xf0],
+  [124, 0xef],
+  [379, 0xe0],
+  [380, 0xdf],
+  [891, 0xd0],
+  [892, 0xcf],
+  [1915, 0xc0],
+  [1916, 0xbf],
+  [3963, 0xb0],
+  [3964, 0xaf],
+  [8059, 0xa0],
+  [8060, 0x9f],
+  [16251, 0x90],
+  [16252, 0x8f],
+  [-124, 0x70],
+  [-125, 0x6f],
+  [-16252, 0x10],
+  [-16253, 0x0f],
+];
+
+const MULAW_DECODE: [number, number][] = [
+  [0x00, -32124],
+  [0x0f, -16764],
+  [0x10, -15996],
+  [0x7e, -8],
+  [0x7f, 0],
+  [0x80, 32124],
+  [0x8f, 16764],
+  [0xef, 132],
+  [0xf0, 120],
+  [0xfe, 8],
+  [0xff, 0],
+];
+
+const ALAW_ENCODE: [number, number][] = [
+  [0, 0xd5],
+  [1, 0xd5],
+  [-1, 0x55],
+  [32767, 0xaa],
+  [-32768, 0x2a],
+  // Last and first sample of each segment
+  [255, 0xda],
+  [256, 0xc5],
+  [511, 0xca],
+  [512, 0xf5],
+  [1023, 0xfa],
+  [1024, 0xe5],
+  [2047, 0xea],
+  [2048, 0x95],
+  [4095, 0x9a],
+  [4096, 0x85],
+  [8191, 0x8a],
+  [8192, 0xb5],
+  [16383, 0xba],
+  [16384, 0xa5],
+  [-256, 0x5a],
+  [-257, 0x45],
+];
+
+const ALAW_DECODE: [number, number][] = [
+  [0x2a, -32256],
+  [0xaa, 32256],
+  [0x55, -8],
+  [0xd5, 8],
+  [0x00, -5504],
+  [0x80, 5504],
+  [0x7f, -848],
+  [0xff, 848],
+  [0xc5, 264],
+  [0xd4, 24],
+];
+
+const hex = (byte: number) => `0x${byte.toString(16).padStart(2, "0")}`;
+
+describe("μ-law", () => {
+  test.each(MULAW_ENCODE)("encodes %d as reference", (sample, byte) => {
+    expect(hex(linearToMulaw(sample))).toBe(hex(byte));
+  });
+
+  test.each(MULAW_DECODE)("decodes %d as reference", (byte, sample) => {
+    expect(mulawToLinear(byte)).toBe(sample);
+  });
+
+  test("silence byte decodes to zero", () => {
+    expect(MULAW_SILENCE).toBe(0xff);
+    expect(mulawToLinear(MULAW_SILENCE)).toBe(0);
+    expect(linearToMulaw(0)).toBe(MULAW_SILENCE);
+  });
+
+  test("every code survives a decode/encode round trip", () => {
+    for (let byte = 0; byte < 256; byte++) {
+      // 0x7f is negative zero, which encodes as positive zero
+      const expected = byte === 0x7f ? 0xff : byte;
+      expect(hex(linearToMulaw(mulawToLinear(byte)))).toBe(hex(expected));
+    }
+  });
+
+  test("clamps out-of-range samples", () => {
+    expect(linearToMulaw(40000)).toBe(linearToMulaw(32767));
+    expect(linearToMulaw(-40000)).toBe(linearToMulaw(-32768));
+  });
+
+  test("block helpers match the per-sample codec", () => {
+    const samples = [0, 124, -125, 8060, -32768, 32767];
+    expect(Array.from(encodeMulaw(samples))).toEqual(samples.map(linearToMulaw));
+    const bytes = [0x00, 0x7f, 0x80, 0xff];
+    expect(Array.from(decodeMulaw(bytes))).toEqual(bytes.map(mulawToLinear));
+  });
+});
+
+describe("A-law", () => {
+  test.each(ALAW_ENCODE)("encodes %d as reference", (sample, byte) => {
+    expect(hex(linearToAlaw(sample))).toBe(hex(byte));
+  });
+
+  test.each(ALAW_DECODE)("decodes %d as reference", (byte, sample) => {
+    expect(alawToLinear(byte)).toBe(sample);
+  });
+
+  test("silence byte is the smallest positive step", () => {
+    expect(ALAW_SILENCE).toBe(0xd5);
+    expect(alawToLinear(ALAW_SILENCE)).toBe(8);
+    expect(linearToAlaw(0)).toBe(ALAW_SILENCE);
+  });
+
+  test("every code survives a decode/encode round trip", () => {
+    for (let byte = 0; byte < 256; byte++) {
+      expect(hex(linearToAlaw(alawToLinear(byte)))).toBe(hex(byte));
+    }
+  });
+
+  test("block helpers match the per-sample codec", () => {
+    const samples = [0, 256, -257, 8192, -32768, 32767];
+    expect(Array.from(encodeAlaw(samples))).toEqual(samples.map(linearToAlaw));
+    const bytes = [0x2a, 0x55, 0xaa, 0xd5];
+    expect(Array.from(decodeAlaw(bytes))).toEqual(bytes.map(alawToLinear));
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * ITU-T G.711 μ-law and A-law codecs for 16-bit linear PCM.
+ *
+ * Segmented (piecewise-linear) encoding as specified by G.711, bit-exact
+ * with the ITU-T G.191 reference implementation: μ-law uses the 14 most
+ * significant bits with a bias of 33, A-law the 13 most significant bits,
+ * and negative samples are folded with one's complement before encoding.
+ */
+
+const MULAW_BIAS = 33;
+const MULAW_MAX = 0x1fff;
+
+/** μ-law byte for digital silence (linear 0). */
+export const MULAW_SILENCE = 0xff;
+/** A-law byte for digital silence (linear ±8, the smallest step). */
+export const ALAW_SILENCE = 0xd5;
+
+function toInt16(sample: number): number {
+  return Math.max(-32768, Math.min(32767, Math.round(sample)));
+}
+
+/** Encode one 16-bit linear PCM sample as a G.711 μ-law byte. */
+export function linearToMulaw(sample: number): number {
+  const pcm = toInt16(sample);
+  const magnitude = Math.min((pcm < 0 ? ~pcm : pcm) >> 2, MULAW_MAX - MULAW_BIAS) + MULAW_BIAS;
+
+  let segment = 1;
+  for (let rest = magnitude >> 6; rest !== 0; rest >>= 1) segment++;
+
+  const high = 8 - segment;
+  const low = 0x0f - ((magnitude >> segment) & 0x0f);
+  const byte = (high << 4) | low;
+  return pcm >= 0 ? byte | 0x80 : byte;
+}
+
+/** Decode a G.711 μ-law byte to a 16-bit linear PCM sample. */
+export function mulawToLinear(byte: number): number {
+  const inverted = ~byte & 0xff;
+  const exponent = (inverted >> 4) & 0x07;
+  const mantissa = inverted & 0x0f;
+  const step = 4 << (exponent + 1);
+  const magnitude = (0x80 << exponent) + step * mantissa + step / 2 - 4 * MULAW_BIAS;
+  return byte & 0x80 ? magnitude : 0 - magnitude;
+}
+
+/** Encode one 16-bit linear PCM sample as a G.711 A-law byte. */
+export function linearToAlaw(sample: number): number {
+  const pcm = toInt16(sample);
+  let value = (pcm < 0 ? ~pcm : pcm) >> 4;
+
+  if (value > 15) {
+    let exponent = 1;
+    while (value > 16 + 15) {
+      value >>= 1;
+      exponent++;
+    }
+    value = value - 16 + (exponent << 4);
+  }
+  if (pcm >= 0) value |= 0x80;
+  return value ^ 0x55;
+}
+
+/** Decode a G.711 A-law byte to a 16-bit linear PCM sample. */
+export function alawToLinear(byte: number): number {
+  const value = ((byte & 0xff) ^ 0x55) & 0x7f;
+  const exponent = value >> 4;
+  let mantissa = value & 0x0f;
+  if (exponent > 0) mantissa += 16;
+  mantissa = (mantissa << 4) + 8;
+  if (exponent > 1) mantissa <<= exponent - 1;
+  return (byte & 0xff) > 0x7f ? mantissa : -mantissa;
+}
+
+/** Encode a block of 16-bit linear PCM as μ-law. */
+export function encodeMulaw(samples: ArrayLike<number>): Uint8Array {
+  const out = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) out[i] = linearToMulaw(samples[i]);
+  return out;
+}
+
+/** Decode a block of μ-law bytes to 16-bit linear PCM. */
+export function decodeMulaw(bytes: ArrayLike<number>): Int16Array {
+  const out = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) out[i] = mulawToLinear(bytes[i]);
+  return out;
+}
+
+/** Encode a block of 16-bit linear PCM as A-law. */
+export function encodeAlaw(samples: ArrayLike<number>): Uint8Array {
+  const out = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) out[i] = linearToAlaw(samples[i]);
+  return out;
+}
+
+/** Decode a block of A-law bytes to 16-bit linear PCM. */
+export function decodeAlaw(bytes: ArrayLike<number>): Int16Array {
+  const out = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) out[i] = alawToLinear(bytes[i]);
+  return out;
+}
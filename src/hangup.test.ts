@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CallManager, type CallRecord } from "./call-manager.ts";
+import { OutboundQueue } from "./call-queue.ts";
+import { CallStore } from "./call-store.ts";
+import type { CallSettings } from "./config.ts";
+import { hangupCall, type HangupDeps } from "./hangup.ts";
+import { CallScheduler } from "./scheduler.ts";
+
+let dir: string;
+let manager: CallManager;
+let scheduler: CallScheduler;
+let queue: OutboundQueue;
+let twilio: { hangup: ReturnType<typeof mock>; cancel: ReturnType<typeof mock> };
+let closed: string[];
+let cancelledSchedules: string[];
+let errors: string[];
+let deps: HangupDeps;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "voice-rt-hangup-"));
+  manager = new CallManager(new CallStore({ retentionDays: 90, maxRecords: 5000 }, join(dir, "calls.jsonl")));
+  scheduler = new CallScheduler(async () => ({ success: true }), join(dir, "scheduled.json"));
+  queue = new OutboundQueue();
+  twilio = { hangup: mock(async () => {}), cancel: mock(async () => {}) };
+  closed = [];
+  cancelledSchedules = [];
+  errors = [];
+  deps = {
+    callManager: manager,
+    scheduler,
+    outboundQueue: queue,
+    twilioClient: twilio,
+    cancelScheduled: (callId) => {
+      cancelledSchedules.push(callId);
+      scheduler.cancel(callId);
+      return { success: true, message: `Cancelled scheduled call ${callId}` };
+    },
+    closeCall: (callId) => closed.push(callId),
+    logger: { info: () => {}, error: (m) => errors.push(m) },
+  };
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function startCall(callId: string, status: CallRecord["status"], sessionKey = "agent:main"): void {
+  manager.createCall(callId, "+14155551234", "+14155550000", "Check opening hours");
+  manager.setSessionKey(callId, sessionKey);
+  if (status !== "queued") manager.setCallSid(callId, `CA-${callId}`);
+  manager.updateStatus(callId, status);
+}
+
+describe("hangupCall", () => {
+  test("hangs up a live call", async () => {
+    startCall("call-1", "in-progress");
+
+    const result = await hangupCall(deps, { callId: "call-1", reason: "Wrong number" }, "operator");
+    expect(result).toEqual({ success: true, callId: "call-1", message: "Hung up call call-1", previousStatus: "in-progress" });
+    expect(twilio.hangup).toHaveBeenCalledWith("CA-call-1");
+    expect(twilio.cancel).not.toHaveBeenCalled();
+    expect(closed).toEqual(["call-1"]);
+
+    const record = manager.findCall({ callId: "call-1" });
+    expect(record?.status).toBe("cancelled");
+    expect(record?.cancellation).toMatchObject({ requestedBy: "operator", reason: "Wrong number", fromStatus: "in-progress" });
+    expect(record?.transcript.at(-1)?.text).toBe("[Call cancelled by operator: Wrong number]");
+  });
+
+  test("cancels a ringing call instead of hanging it up", async () => {
+    startCall("call-1", "ringing");
+
+    const result = await hangupCall(deps, { callId: "call-1" }, "operator");
+    expect(result.message).toBe("Cancelled call call-1 (was ringing)");
+    expect(twilio.cancel).toHaveBeenCalledWith("CA-call-1");
+    expect(twilio.hangup).not.toHaveBeenCalled();
+  });
+
+  test("refuses a call that already ended", async () => {
+    startCall("call-1", "completed");
+
+    const result = await hangupCall(deps, { callId: "call-1" }, "operator");
+    expect(result).toEqual({
+      success: false,
+      callId: "call-1",
+      message: "Call call-1 already ended (completed)",
+      previousStatus: "completed",
+      error: "NOT_CANCELLABLE",
+    });
+    expect(twilio.hangup).not.toHaveBeenCalled();
+    expect(closed).toEqual([]);
+    expect(manager.findCall({ callId: "call-1" })?.cancellation).toBeUndefined();
+  });
+
+  test("refuses an ended call that was already evicted from memory", async () => {
+    startCall("call-1", "no-answer");
+    manager.cleanup("call-1");
+
+    const result = await hangupCall(deps, { callId: "call-1" }, "operator");
+    expect(result.error).toBe("NOT_CANCELLABLE");
+    expect(result.previousStatus).toBe("no-answer");
+  });
+
+  test("removes a queued call from the outbound queue without asking Twilio", async () => {
+    startCall("call-1", "queued");
+    queue.enqueue({
+      callId: "call-1",
+      params: { to: "+14155551234", task: "Check opening hours" },
+      settings: {} as CallSettings,
+      priority: "normal",
+      enqueuedAt: Date.now(),
+    });
+
+    const result = await hangupCall(deps, { callId: "call-1" }, "operator");
+    expect(result).toMatchObject({ success: true, message: "Cancelled call call-1 (was queued)", previousStatus: "queued" });
+    expect(queue.size).toBe(0);
+    expect(twilio.hangup).not.toHaveBeenCalled();
+    expect(twilio.cancel).not.toHaveBeenCalled();
+    expect(manager.findCall({ callId: "call-1" })?.status).toBe("cancelled");
+  });
+
+  test("leaves the call running when Twilio rejects the hangup", async () => {
+    startCall("call-1", "in-progress");
+    twilio.hangup.mockImplementation(async () => {
+      throw new Error("Twilio 20003: Authenticate");
+    });
+
+    const result = await hangupCall(deps, { callId: "call-1" }, "operator");
+    expect(result).toEqual({
+      success: false,
+      callId: "call-1",
+      message: "Failed to hang up call call-1: Twilio 20003: Authenticate",
+      previousStatus: "in-progress",
+      error: "HANGUP_FAILED",
+    });
+    expect(errors).toEqual(["[voice-rt] Failed to hang up call call-1: Twilio 20003: Authenticate"]);
+
+    const record = manager.getByCallId("call-1");
+    expect(record?.status).toBe("in-progress");
+    // The status callback that follows must not read a cancellation that never happened
+    expect(record?.cancellation).toBeUndefined();
+    expect(record?.transcript).toEqual([]);
+    expect(closed).toEqual([]);
+  });
+
+  test("cancels the pending retry of an ended first attempt", async () => {
+    startCall("call-1", "busy");
+    scheduler.schedule("call-2", Date.now() + 60_000, { to: "+14155551234", task: "Check opening hours" }, {
+      originalCallId: "call-1",
+      attempt: 2,
+    });
+
+    const result = await hangupCall(deps, { callId: "call-1" }, "operator");
+    expect(result).toMatchObject({
+      success: true,
+      message: "Cancelled pending retry call-2 of call call-1",
+      previousStatus: "scheduled",
+    });
+    expect(cancelledSchedules).toEqual(["call-2"]);
+  });
+
+  test("hangs up the live retry when given the first attempt's callId", async () => {
+    startCall("call-1", "no-answer");
+    startCall("call-2", "in-progress");
+    manager.setAttempt("call-2", "call-1", 2);
+
+    const result = await hangupCall(deps, { callId: "call-1" }, "operator");
+    expect(result.message).toBe("Hung up retry call-2 of call call-1");
+    expect(twilio.hangup).toHaveBeenCalledWith("CA-call-2");
+    expect(manager.getByCallId("call-2")?.status).toBe("cancelled");
+  });
+
+  test("cancels a call that is only scheduled", async () => {
+    scheduler.schedule("call-1", Date.now() + 60_000, { to: "+14155551234", task: "Check opening hours" });
+
+    const result = await hangupCall(deps, { callId: "call-1" }, "operator");
+    expect(result).toEqual({
+      success: true,
+      callId: "call-1",
+      message: "Cancelled scheduled call call-1",
+      previousStatus: "scheduled",
+    });
+  });
+
+  test("only lets an agent cancel calls its own session placed", async () => {
+    startCall("call-1", "in-progress", "agent:main");
+
+    const other = await hangupCall(deps, { callId: "call-1" }, "agent", "agent:other");
+    expect(other.error).toBe("CALL_NOT_FOUND");
+    expect(twilio.hangup).not.toHaveBeenCalled();
+
+    const own = await hangupCall(deps, { callId: "call-1" }, "agent", "agent:main");
+    expect(own.success).toBe(true);
+  });
+
+  test("reports unknown calls", async () => {
+    expect((await hangupCall(deps, { callId: "missing" }, "operator")).error).toBe("CALL_NOT_FOUND");
+    expect((await hangupCall(deps, {}, "operator")).message).toBe("No call found for (missing callId)");
+  });
+});
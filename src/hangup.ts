@@ -0,0 +1,145 @@
+/**
+ * Cancelling calls on behalf of the operator or the agent that placed them,
+ * whatever stage the call is in.
+ */
+
+import { isTerminalStatus, type CallCancellation, type CallManager } from "./call-manager.ts";
+import type { OutboundQueue } from "./call-queue.ts";
+import { redactor } from "./redaction.ts";
+import type { CallScheduler } from "./scheduler.ts";
+import type { TwilioClient } from "./twilio-client.ts";
+
+export interface HangupCallResult {
+  success: boolean;
+  callId: string;
+  message: string;
+  /** Status the call was in when it was cancelled. */
+  previousStatus?: string;
+  error?: string;
+}
+
+export interface HangupDeps {
+  callManager: CallManager;
+  scheduler: Pick<CallScheduler, "get" | "findPendingRetry">;
+  outboundQueue: Pick<OutboundQueue, "remove">;
+  twilioClient: Pick<TwilioClient, "hangup" | "cancel">;
+  /** Cancels a pending scheduled call or retry and delivers what is left of its result. */
+  cancelScheduled: (callId: string) => { success: boolean; message: string; error?: string };
+  /** Closes the call's media bridge, if it has one. */
+  closeCall: (callId: string) => void;
+  logger: { info: (m: string) => void; error: (m: string) => void };
+}
+
+/**
+ * Cancel or hang up a call at whatever stage it is in: scheduled calls are
+ * dropped from the scheduler, queued calls from the outbound queue, ringing
+ * calls are cancelled at Twilio and live calls hung up. The original callId
+ * also reaches the call's pending or live retry. Agent tool calls pass their
+ * sessionKey and may only cancel calls that session placed.
+ */
+export async function hangupCall(
+  deps: HangupDeps,
+  params: Record<string, unknown>,
+  requestedBy: CallCancellation["requestedBy"],
+  sessionKey?: string
+): Promise<HangupCallResult> {
+  const { callManager, scheduler, outboundQueue, twilioClient, logger } = deps;
+  const callId = typeof params.callId === "string" ? params.callId.trim() : "";
+  const reason = typeof params.reason === "string" && params.reason.trim() ? params.reason.trim() : undefined;
+
+  const scheduled = callId ? scheduler.get(callId) : undefined;
+  // Ended calls may only be in the store; the lookup below still finds their retries
+  let record = callId ? callManager.findCall({ callId }) : undefined;
+  const owner = record?.sessionKey ?? scheduled?.params.sessionKey;
+  // Agents may only cancel calls placed from their own session; calls without
+  // one (inbound, CLI, gateway) are operator-only
+  if ((!record && !scheduled) || (requestedBy === "agent" && (!owner || owner !== sessionKey))) {
+    return {
+      success: false,
+      callId,
+      message: `No call found for ${callId || "(missing callId)"}`,
+      error: "CALL_NOT_FOUND",
+    };
+  }
+
+  if (!record) {
+    const result = deps.cancelScheduled(callId);
+    return {
+      success: result.success,
+      callId,
+      message: result.message,
+      previousStatus: "scheduled",
+      ...(result.error ? { error: result.error } : {}),
+    };
+  }
+
+  // Callers only know the first attempt's callId; an automatic retry may be
+  // waiting to dial or already on the line
+  if (isTerminalStatus(record.status)) {
+    const originalCallId = record.originalCallId ?? record.callId;
+    const retry = scheduler.findPendingRetry(originalCallId);
+    if (retry) {
+      const result = deps.cancelScheduled(retry.callId);
+      return {
+        success: result.success,
+        callId,
+        message: result.success ? `Cancelled pending retry ${retry.callId} of call ${callId}` : result.message,
+        previousStatus: "scheduled",
+        ...(result.error ? { error: result.error } : {}),
+      };
+    }
+    record = callManager.getAttempts(originalCallId).find((attempt) => !isTerminalStatus(attempt.status)) ?? record;
+  }
+
+  const attemptId = record.callId;
+  const fromStatus = record.status;
+  if (isTerminalStatus(fromStatus)) {
+    return {
+      success: false,
+      callId,
+      message: `Call ${callId} already ended (${fromStatus})`,
+      previousStatus: fromStatus,
+      error: "NOT_CANCELLABLE",
+    };
+  }
+
+  // Recorded before Twilio is asked so the status callback that follows sees it
+  callManager.setCancellation(attemptId, { requestedBy, reason, fromStatus, at: Date.now() });
+
+  if (fromStatus === "queued") {
+    outboundQueue.remove(attemptId);
+  } else if (record.callSid) {
+    try {
+      if (fromStatus === "in-progress") {
+        await twilioClient.hangup(record.callSid);
+      } else {
+        await twilioClient.cancel(record.callSid);
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      callManager.setCancellation(attemptId, undefined);
+      logger.error(`[voice-rt] Failed to hang up call ${attemptId}: ${errorMsg}`);
+      return {
+        success: false,
+        callId,
+        message: `Failed to hang up call ${attemptId}: ${errorMsg}`,
+        previousStatus: fromStatus,
+        error: "HANGUP_FAILED",
+      };
+    }
+  }
+  // Still "initiating" without a SID: dialOutboundCall cancels it once Twilio answers
+
+  callManager.addTranscript(attemptId, "system", `[Call cancelled by ${requestedBy}${reason ? `: ${reason}` : ""}]`);
+  callManager.updateStatus(attemptId, "cancelled");
+  deps.closeCall(attemptId);
+  logger.info(redactor.text(`[voice-rt] Call ${attemptId} cancelled by ${requestedBy} while ${fromStatus}${reason ? ` — ${reason}` : ""}`));
+
+  const label = attemptId === callId ? `call ${callId}` : `retry ${attemptId} of call ${callId}`;
+  return {
+    success: true,
+    callId,
+    message: fromStatus === "in-progress" ? `Hung up ${label}` : `Cancelled ${label} (was ${fromStatus})`,
+    previousStatus: fromStatus,
+  };
+}
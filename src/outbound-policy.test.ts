@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, test, setSystemTime } from "bun:test";
+import { OutboundPolicyConfigSchema } from "./config.ts";
+import { OutboundPolicy, normalizeNumber } from "./outbound-policy.ts";
+
+function createPolicy(config: Record<string, unknown> = {}): OutboundPolicy {
+  return new OutboundPolicy(OutboundPolicyConfigSchema.parse(config));
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("normalizeNumber", () => {
+  test("strips spaces, dashes, dots and parentheses", () => {
+    expect(normalizeNumber(" +1 (415) 555-1234 ")).toBe("+14155551234");
+    expect(normalizeNumber("+44.20.7946.0000")).toBe("+442079460000");
+  });
+});
+
+describe("OutboundPolicy.checkDestination", () => {
+  test("accepts a formatted E.164 number and returns it canonical", () => {
+    expect(createPolicy().checkDestination("+1 (415) 555-1234")).toEqual({ ok: true, to: "+14155551234" });
+  });
+
+  test.each(["911", "112", "999", "+1911", "+44999", "+33112", "000", "1-1-2"])(
+    "blocks emergency number %s",
+    (to) => {
+      const result = createPolicy().checkDestination(to);
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBe("EMERGENCY_NUMBER");
+    }
+  );
+
+  test("blocks emergency numbers even when the country is allowed", () => {
+    const result = createPolicy({ allowedCountryCodes: ["+1"] }).checkDestination("+1911");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBe("EMERGENCY_NUMBER");
+  });
+
+  test.each(["", "4155551234", "+0123456789", "+1415555123456789", "not a number", 14155551234])(
+    "rejects invalid number %p",
+    (to) => {
+      const result = createPolicy().checkDestination(to);
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBe("INVALID_NUMBER");
+    }
+  );
+
+  test.each(["+1234", "+4412345", "+1555123"])("blocks short code %s", (to) => {
+    const result = createPolicy().checkDestination(to);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBe("SHORT_CODE");
+  });
+
+  test("only allows the configured country codes", () => {
+    const policy = createPolicy({ allowedCountryCodes: ["+1", "+44"] });
+    expect(policy.checkDestination("+14155551234").ok).toBe(true);
+    expect(policy.checkDestination("+442079460000").ok).toBe(true);
+
+    const result = policy.checkDestination("+33142685300");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBe("COUNTRY_NOT_ALLOWED");
+  });
+
+  test("allows any country when the allowlist is empty", () => {
+    expect(createPolicy().checkDestination("+33142685300").ok).toBe(true);
+  });
+
+  test.each(["+19005551234", "+19765551234", "+449012345678"])("denies premium-rate number %s by default", (to) => {
+    const result = createPolicy().checkDestination(to);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBe("NUMBER_DENIED");
+  });
+
+  test("applies custom deny patterns in place of the defaults", () => {
+    const policy = createPolicy({ denyPatterns: ["^\\+1415"] });
+    const result = policy.checkDestination("+14155551234");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBe("NUMBER_DENIED");
+    expect(policy.checkDestination("+19005551234").ok).toBe(true);
+  });
+});
+
+describe("OutboundPolicy.check", () => {
+  test("rate limits a number once the window is full", () => {
+    const policy = createPolicy({ rateLimit: { maxCallsPerNumber: 2, windowMinutes: 10 } });
+    for (let i = 0; i < 2; i++) {
+      expect(policy.check("+14155551234").ok).toBe(true);
+      policy.recordAttempt("+14155551234");
+    }
+
+    const result = policy.check("+1 415 555 1234");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBe("RATE_LIMITED");
+    // Other numbers are counted separately
+    expect(policy.check("+14155550000").ok).toBe(true);
+  });
+
+  test("check does not count an attempt by itself", () => {
+    const policy = createPolicy({ rateLimit: { maxCallsPerNumber: 1, windowMinutes: 10 } });
+    expect(policy.check("+14155551234").ok).toBe(true);
+    expect(policy.check("+14155551234").ok).toBe(true);
+  });
+
+  test("attempts older than the window no longer count", () => {
+    const start = new Date("2026-01-01T12:00:00Z");
+    setSystemTime(start);
+    const policy = createPolicy({ rateLimit: { maxCallsPerNumber: 1, windowMinutes: 10 } });
+    policy.recordAttempt("+14155551234");
+    expect(policy.check("+14155551234").ok).toBe(false);
+
+    setSystemTime(new Date(start.getTime() + 9 * 60 * 1000));
+    expect(policy.check("+14155551234").ok).toBe(false);
+
+    setSystemTime(new Date(start.getTime() + 10 * 60 * 1000 + 1));
+    expect(policy.check("+14155551234").ok).toBe(true);
+  });
+
+  test("a limit of 0 disables rate limiting", () => {
+    const policy = createPolicy({ rateLimit: { maxCallsPerNumber: 0 } });
+    for (let i = 0; i < 20; i++) policy.recordAttempt("+14155551234");
+    expect(policy.check("+14155551234").ok).toBe(true);
+  });
+
+  test("static violations take precedence over the rate limit", () => {
+    const result = createPolicy().check("911");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBe("EMERGENCY_NUMBER");
+  });
+});
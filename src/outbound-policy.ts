@@ -0,0 +1,126 @@
+import type { OutboundPolicyConfig } from "./config.ts";
+
+export const OUTBOUND_POLICY_ERRORS = [
+  "INVALID_NUMBER",
+  "EMERGENCY_NUMBER",
+  "SHORT_CODE",
+  "COUNTRY_NOT_ALLOWED",
+  "NUMBER_DENIED",
+  "RATE_LIMITED",
+] as const;
+
+export type OutboundPolicyError = (typeof OUTBOUND_POLICY_ERRORS)[number];
+
+export type OutboundPolicyResult =
+  | { ok: true; /** The number in canonical E.164 form. */ to: string }
+  | { ok: false; error: OutboundPolicyError; message: string };
+
+// Emergency numbers in common use worldwide. Never dialable, with or without a
+// country code, whatever the config says.
+const EMERGENCY_NUMBERS = new Set([
+  "000", "08", "100", "101", "102", "103", "104", "108", "110", "111", "112", "113", "115", "117", "118", "119",
+  "122", "123", "15", "155", "16", "17", "18", "190", "191", "192", "193", "199", "911", "933", "995", "997",
+  "998", "999",
+]);
+// Anything shorter than this (after the +) is a short code or service number, not a subscriber line
+const MIN_E164_DIGITS = 8;
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+/**
+ * Checks an outbound destination against the configured policy before any
+ * Twilio request is made. Rate limits are tracked in memory per number.
+ */
+export class OutboundPolicy {
+  private config: OutboundPolicyConfig;
+  private denyPatterns: RegExp[];
+  private attempts = new Map<string, number[]>();
+
+  constructor(config: OutboundPolicyConfig) {
+    this.config = config;
+    this.denyPatterns = config.denyPatterns.map((pattern) => new RegExp(pattern));
+  }
+
+  /** Static checks: number format, emergency/short codes, country allowlist, denylist. */
+  checkDestination(rawTo: unknown): OutboundPolicyResult {
+    const to = normalizeNumber(typeof rawTo === "string" ? rawTo : "");
+    if (isEmergencyNumber(to)) {
+      return { ok: false, error: "EMERGENCY_NUMBER", message: `Refusing to call ${rawTo}: emergency numbers are never dialed` };
+    }
+    if (!E164_PATTERN.test(to)) {
+      return {
+        ok: false,
+        error: "INVALID_NUMBER",
+        message: `Invalid phone number "${rawTo}". Use E.164 format with country code (e.g. +14155551234)`,
+      };
+    }
+    if (to.length - 1 < MIN_E164_DIGITS) {
+      return { ok: false, error: "SHORT_CODE", message: `Refusing to call ${to}: short codes and service numbers are blocked` };
+    }
+
+    const allowed = this.config.allowedCountryCodes;
+    if (allowed.length > 0 && !allowed.some((code) => to.startsWith(code))) {
+      return {
+        ok: false,
+        error: "COUNTRY_NOT_ALLOWED",
+        message: `Calls to ${to} are not allowed. Allowed country codes: ${allowed.join(", ")}`,
+      };
+    }
+
+    const denied = this.denyPatterns.find((pattern) => pattern.test(to));
+    if (denied) {
+      return { ok: false, error: "NUMBER_DENIED", message: `Calls to ${to} are blocked by outbound policy (${denied.source})` };
+    }
+    return { ok: true, to };
+  }
+
+  /** Static checks plus the per-number rate limit. Does not count an attempt. */
+  check(rawTo: unknown): OutboundPolicyResult {
+    const result = this.checkDestination(rawTo);
+    if (!result.ok) return result;
+
+    const { maxCallsPerNumber, windowMinutes } = this.config.rateLimit;
+    if (maxCallsPerNumber > 0 && this.recentAttempts(result.to).length >= maxCallsPerNumber) {
+      return {
+        ok: false,
+        error: "RATE_LIMITED",
+        message: `Too many calls to ${result.to}: at most ${maxCallsPerNumber} per ${windowMinutes} minutes`,
+      };
+    }
+    return result;
+  }
+
+  /** Count a call placed (or queued) to a number that passed check(). */
+  recordAttempt(to: string): void {
+    const recent = this.recentAttempts(to);
+    recent.push(Date.now());
+    this.attempts.set(to, recent);
+  }
+
+  private recentAttempts(to: string): number[] {
+    const cutoff = Date.now() - this.config.rateLimit.windowMinutes * 60 * 1000;
+    const recent = (this.attempts.get(to) ?? []).filter((ts) => ts > cutoff);
+    if (recent.length > 0) {
+      this.attempts.set(to, recent);
+    } else {
+      this.attempts.delete(to);
+    }
+    return recent;
+  }
+}
+
+/** Strip the formatting people and models add: spaces, dashes, dots, parentheses. */
+export function normalizeNumber(raw: string): string {
+  return raw.trim().replace(/[\s().-]/g, "");
+}
+
+function isEmergencyNumber(number: string): boolean {
+  const digits = number.replace(/^\+/, "");
+  if (!/^\d+$/.test(digits)) return false;
+  if (EMERGENCY_NUMBERS.has(digits)) return true;
+  // An emergency number behind a 1-3 digit country code, e.g. +1911 or +44999
+  if (!number.startsWith("+")) return false;
+  for (let cc = 1; cc <= 3; cc++) {
+    if (EMERGENCY_NUMBERS.has(digits.slice(cc))) return true;
+  }
+  return false;
+}
@@ -0,0 +1,125 @@
+import { describe, expect, test } from "bun:test";
+import { checkOutcomeSchema, validateOutcomeDetails, type OutcomeSchema } from "./outcome-schema.ts";
+
+const RESERVATION: OutcomeSchema = {
+  type: "object",
+  properties: {
+    confirmed: { type: "boolean" },
+    time: { type: "string", description: "Booked time, HH:MM" },
+    partySize: { type: "integer" },
+    seating: { type: "string", enum: ["indoor", "outdoor"] },
+    contact: {
+      type: "object",
+      properties: { name: { type: "string" }, phone: { type: ["string", "null"] } },
+      required: ["name"],
+    },
+    notes: { type: "array", items: { type: "string" } },
+  },
+  required: ["confirmed", "time"],
+};
+
+describe("checkOutcomeSchema", () => {
+  test("accepts an object schema using the supported keywords", () => {
+    expect(checkOutcomeSchema(RESERVATION)).toBeUndefined();
+  });
+
+  test.each([
+    [null, "must be a JSON Schema object"],
+    [[], "must be a JSON Schema object"],
+    [{ type: "array" }, 'top-level "type" must be "object"'],
+    [{ type: "object", properties: { a: { type: "string", pattern: "^x" } } }, 'a: unsupported keyword "pattern"'],
+    [{ type: "object", properties: { a: { type: "date" } } }, 'a: unknown type "date"'],
+    [{ type: "object", required: "a" }, '(root): "required" must be an array of property names'],
+    [{ type: "object", properties: { a: { enum: "x" } } }, 'a: "enum" must be an array'],
+    [{ type: "object", properties: { a: { type: "array", items: { oneOf: [] } } } }, 'a[]: unsupported keyword "oneOf"'],
+  ])("rejects %j", (schema, message) => {
+    expect(checkOutcomeSchema(schema)).toBe(message);
+  });
+
+  test("rejects schemas nested too deeply", () => {
+    let schema: OutcomeSchema = { type: "string" };
+    for (let i = 0; i < 7; i++) schema = { type: "object", properties: { a: schema } };
+    expect(checkOutcomeSchema(schema)).toContain("nested deeper than");
+  });
+
+  test("rejects oversized schemas", () => {
+    const properties = Object.fromEntries(
+      Array.from({ length: 400 }, (_, i) => [`field${i}`, { type: "string", description: "x".repeat(20) }])
+    );
+    expect(checkOutcomeSchema({ type: "object", properties })).toContain("bytes");
+  });
+});
+
+describe("validateOutcomeDetails", () => {
+  test("accepts details that match the schema", () => {
+    expect(
+      validateOutcomeDetails(RESERVATION, {
+        confirmed: true,
+        time: "19:30",
+        partySize: 4,
+        seating: "outdoor",
+        contact: { name: "Sam", phone: null },
+        notes: ["window seat"],
+      })
+    ).toEqual({ valid: true, missing: [], errors: [] });
+  });
+
+  test("reports missing required fields, treating null and empty strings as missing", () => {
+    expect(validateOutcomeDetails(RESERVATION, { confirmed: null, time: "", contact: {} })).toEqual({
+      valid: false,
+      missing: ["confirmed", "time", "contact.name"],
+      errors: [],
+    });
+  });
+
+  test("treats absent details as an empty object", () => {
+    expect(validateOutcomeDetails(RESERVATION, undefined).missing).toEqual(["confirmed", "time"]);
+  });
+
+  test("reports type mismatches by path", () => {
+    const result = validateOutcomeDetails(RESERVATION, {
+      confirmed: "yes",
+      time: "19:30",
+      partySize: 4.5,
+      contact: { name: 7 },
+      notes: ["ok", 3],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      "confirmed: expected boolean",
+      "partySize: expected integer",
+      "contact.name: expected string",
+      "notes[1]: expected string",
+    ]);
+  });
+
+  test("reports values outside an enum", () => {
+    expect(validateOutcomeDetails(RESERVATION, { confirmed: true, time: "19:30", seating: "bar" }).errors).toEqual([
+      'seating: expected one of "indoor", "outdoor"',
+    ]);
+  });
+
+  test("accepts any of several types", () => {
+    const schema: OutcomeSchema = { type: "object", properties: { price: { type: ["number", "string"] } } };
+    expect(validateOutcomeDetails(schema, { price: 12 }).valid).toBe(true);
+    expect(validateOutcomeDetails(schema, { price: "12 dollars" }).valid).toBe(true);
+    expect(validateOutcomeDetails(schema, { price: false }).errors).toEqual(["price: expected number or string"]);
+  });
+
+  test("rejects non-finite numbers", () => {
+    const schema: OutcomeSchema = { type: "object", properties: { price: { type: "number" } } };
+    expect(validateOutcomeDetails(schema, { price: Number.NaN }).valid).toBe(false);
+  });
+
+  test("flags unknown fields only when additionalProperties is false", () => {
+    const schema: OutcomeSchema = { type: "object", properties: { time: { type: "string" } } };
+    expect(validateOutcomeDetails(schema, { time: "19:30", extra: 1 }).valid).toBe(true);
+    expect(validateOutcomeDetails({ ...schema, additionalProperties: false }, { time: "19:30", extra: 1 }).errors).toEqual([
+      "extra: not in schema",
+    ]);
+  });
+
+  test("reports details that are not an object", () => {
+    expect(validateOutcomeDetails(RESERVATION, "confirmed").errors).toEqual(["details: expected object"]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Per-call JSON Schemas for report_outcome details.
+ *
+ * Supports the subset of JSON Schema the voice model reliably fills in:
+ * type, properties, required, items, enum, description and
+ * additionalProperties. Validation never rejects an outcome; it only flags
+ * what is missing or malformed so downstream automation can tell.
+ */
+
+const JSON_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"] as const;
+const SCHEMA_KEYWORDS = new Set(["type", "properties", "required", "items", "enum", "description", "additionalProperties", "title"]);
+const MAX_SCHEMA_BYTES = 8 * 1024;
+const MAX_DEPTH = 5;
+
+export type OutcomeSchema = Record<string, unknown>;
+
+export interface OutcomeValidation {
+  valid: boolean;
+  /** Required fields that were not reported, as dotted paths. */
+  missing: string[];
+  /** Type or enum mismatches, e.g. "partySize: expected integer". */
+  errors: string[];
+}
+
+/**
+ * Check that a caller-supplied schema is an object schema using only the
+ * supported keywords. Returns an error message, or undefined if usable.
+ */
+export function checkOutcomeSchema(schema: unknown): string | undefined {
+  if (!isPlainObject(schema)) return "must be a JSON Schema object";
+  if (JSON.stringify(schema).length > MAX_SCHEMA_BYTES) return `must be at most ${MAX_SCHEMA_BYTES} bytes`;
+  if (schema.type !== "object") return 'top-level "type" must be "object"';
+  return checkNode(schema, "", 0);
+}
+
+function checkNode(node: unknown, path: string, depth: number): string | undefined {
+  const at = path || "(root)";
+  if (!isPlainObject(node)) return `${at}: schema must be an object`;
+  if (depth > MAX_DEPTH) return `${at}: nested deeper than ${MAX_DEPTH} levels`;
+
+  for (const key of Object.keys(node)) {
+    if (!SCHEMA_KEYWORDS.has(key)) return `${at}: unsupported keyword "${key}"`;
+  }
+
+  const types = node.type === undefined ? [] : Array.isArray(node.type) ? node.type : [node.type];
+  for (const type of types) {
+    if (!(JSON_TYPES as readonly unknown[]).includes(type)) return `${at}: unknown type ${JSON.stringify(type)}`;
+  }
+  if (node.enum !== undefined && !Array.isArray(node.enum)) return `${at}: "enum" must be an array`;
+  if (node.required !== undefined) {
+    if (!Array.isArray(node.required) || node.required.some((r) => typeof r !== "string")) {
+      return `${at}: "required" must be an array of property names`;
+    }
+  }
+
+  if (node.properties !== undefined) {
+    if (!isPlainObject(node.properties)) return `${at}: "properties" must be an object`;
+    for (const [name, child] of Object.entries(node.properties)) {
+      const error = checkNode(child, joinPath(path, name), depth + 1);
+      if (error) return error;
+    }
+  }
+  if (node.items !== undefined) {
+    const error = checkNode(node.items, `${path}[]`, depth + 1);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+export function validateOutcomeDetails(schema: OutcomeSchema, details: unknown): OutcomeValidation {
+  const missing: string[] = [];
+  const errors: string[] = [];
+  validateNode(schema, details ?? {}, "", missing, errors);
+  return { valid: missing.length === 0 && errors.length === 0, missing, errors };
+}
+
+function validateNode(schema: OutcomeSchema, value: unknown, path: string, missing: string[], errors: string[]): void {
+  const at = path || "details";
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    errors.push(`${at}: expected ${types.join(" or ")}`);
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => option === value)) {
+    errors.push(`${at}: expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties) ? schema.properties : {};
+    for (const name of Array.isArray(schema.required) ? (schema.required as string[]) : []) {
+      if (value[name] === undefined || value[name] === null || value[name] === "") missing.push(joinPath(path, name));
+    }
+    for (const [name, child] of Object.entries(properties)) {
+      if (value[name] !== undefined && value[name] !== null && isPlainObject(child)) {
+        validateNode(child, value[name], joinPath(path, name), missing, errors);
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const name of Object.keys(value)) {
+        if (!(name in properties)) errors.push(`${joinPath(path, name)}: not in schema`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && isPlainObject(schema.items)) {
+    value.forEach((item, index) => validateNode(schema.items as OutcomeSchema, item, `${at}[${index}]`, missing, errors));
+  }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return false;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, jest, mock, spyOn, test } from "bun:test";
+import { EventEmitter } from "node:events";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CallManager } from "./call-manager.ts";
+import { CallStore } from "./call-store.ts";
+import { parseConfig } from "./config.ts";
+import type { TwilioClient } from "./twilio-client.ts";
+
+/** Stands in for both the Twilio media stream and the OpenAI Realtime socket. */
+class FakeWebSocket extends EventEmitter {
+  static OPEN = 1;
+  static CLOSED = 3;
+  static created: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.OPEN;
+  sent: Array<Record<string, unknown>> = [];
+
+  constructor() {
+    super();
+    FakeWebSocket.created.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data) as Record<string, unknown>);
+  }
+
+  close(): void {
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+}
+
+mock.module("ws", () => ({ default: FakeWebSocket }));
+const { RealtimeBridge } = await import("./realtime-bridge.ts");
+
+const config = parseConfig({
+  twilio: { accountSid: `AC${"0".repeat(32)}`, authToken: "token" },
+  fromNumber: "+14155550000",
+  openai: { apiKey: "sk-test" },
+  publicUrl: "https://voice.example.com",
+});
+
+let dir: string;
+let manager: CallManager;
+let bridge: InstanceType<typeof RealtimeBridge>;
+let twilio: FakeWebSocket;
+let openai: FakeWebSocket;
+let consoleLog: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  consoleLog = spyOn(console, "log").mockImplementation(() => {});
+  dir = mkdtempSync(join(tmpdir(), "voice-rt-bridge-"));
+  manager = new CallManager(new CallStore({ retentionDays: 90, maxRecords: 5000 }, join(dir, "calls.jsonl")));
+  manager.createCall("call-1", "+14155551234", "+14155550000", "Pay the electricity bill");
+  manager.updateStatus("call-1", "in-progress");
+
+  FakeWebSocket.created = [];
+  twilio = new FakeWebSocket();
+  bridge = new RealtimeBridge(
+    twilio as never,
+    config,
+    manager,
+    {} as TwilioClient,
+    "call-1",
+    { task: "Pay the electricity bill", direction: "outbound" }
+  );
+  fromTwilio({ event: "start", start: { streamSid: "MZ1", callSid: "CA1" } });
+  openai = FakeWebSocket.created[1]!;
+  openai.emit("open");
+  openai.sent = [];
+});
+
+afterEach(async () => {
+  await bridge.close();
+  jest.useRealTimers();
+  consoleLog.mockRestore();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function fromTwilio(msg: Record<string, unknown>): void {
+  twilio.emit("message", Buffer.from(JSON.stringify(msg)));
+}
+
+function press(...digits: string[]): void {
+  for (const digit of digits) fromTwilio({ event: "dtmf", dtmf: { digit } });
+}
+
+function callFunction(name: string, args: Record<string, unknown>, callId = "fc_1"): void {
+  openai.emit(
+    "message",
+    Buffer.from(JSON.stringify({ type: "response.function_call_arguments.done", name, call_id: callId, arguments: JSON.stringify(args) }))
+  );
+}
+
+/** Let the async function handler run up to its next pending timer. */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+function functionOutputs(): unknown[] {
+  return openai.sent
+    .map((event) => (event.item as { type?: string; output?: unknown } | undefined))
+    .filter((item) => item?.type === "function_call_output")
+    .map((item) => item!.output);
+}
+
+function keypadMessages(): string[] {
+  return openai.sent
+    .map((event) => event.item as { type?: string; content?: Array<{ text: string }> } | undefined)
+    .filter((item) => item?.type === "message")
+    .map((item) => item!.content![0]!.text);
+}
+
+describe("RealtimeBridge DTMF batching", () => {
+  test("passes keys pressed in quick succession to the model as one entry", () => {
+    press("1", "2");
+    jest.advanceTimersByTime(1_000);
+    press("3");
+    jest.advanceTimersByTime(1_499);
+    expect(keypadMessages()).toEqual([]);
+
+    jest.advanceTimersByTime(1);
+    expect(keypadMessages()).toEqual(["[The callee pressed 1 2 3 on their keypad]"]);
+    expect(openai.sent.at(-1)).toEqual({ type: "response.create" });
+    expect(manager.getByCallId("call-1")?.transcript.at(-1)?.text).toBe("[Pressed 123]");
+  });
+
+  test("does not start a response while one is already active", () => {
+    openai.emit("message", Buffer.from(JSON.stringify({ type: "response.created" })));
+    press("5");
+    jest.advanceTimersByTime(1_500);
+
+    expect(keypadMessages()).toHaveLength(1);
+    expect(openai.sent.filter((event) => event.type === "response.create")).toEqual([]);
+  });
+
+  test("writes keys still waiting for their batch to the transcript when the call ends", async () => {
+    press("4", "2");
+    await bridge.close();
+
+    expect(keypadMessages()).toEqual([]);
+    expect(manager.findCall({ callId: "call-1" })?.transcript.at(-1)?.text).toBe("[Pressed 42]");
+  });
+});
+
+describe("RealtimeBridge collect_digits", () => {
+  test("returns once numDigits keys were pressed", async () => {
+    callFunction("collect_digits", { numDigits: 4 });
+    await settle();
+    press("1", "2", "3");
+    await settle();
+    expect(functionOutputs()).toEqual([]);
+
+    press("4");
+    await settle();
+    expect(functionOutputs()).toEqual(["Digits entered: 1234"]);
+    expect(openai.sent.at(-2)).toMatchObject({ item: { call_id: "fc_1" } });
+    expect(openai.sent.at(-1)).toEqual({ type: "response.create" });
+    // Collected keys are not also batched to the model
+    jest.advanceTimersByTime(1_500);
+    expect(keypadMessages()).toEqual([]);
+  });
+
+  test("stops at the terminator key, which is not part of the digits", async () => {
+    callFunction("collect_digits", { terminator: "*" });
+    await settle();
+    press("5", "6", "*");
+    await settle();
+
+    expect(functionOutputs()).toEqual(["Digits entered: 56"]);
+    expect(manager.getByCallId("call-1")?.transcript.at(-1)?.text).toBe("[Pressed 56*]");
+  });
+
+  test("counts keys pressed just before the tool was called", async () => {
+    press("9");
+    callFunction("collect_digits", { numDigits: 2 });
+    await settle();
+    press("8");
+    await settle();
+
+    expect(functionOutputs()).toEqual(["Digits entered: 98"]);
+    jest.advanceTimersByTime(1_500);
+    expect(keypadMessages()).toEqual([]);
+  });
+
+  test("times out with the digits entered so far", async () => {
+    callFunction("collect_digits", { numDigits: 6, timeoutSeconds: 5 });
+    await settle();
+    press("7");
+    jest.advanceTimersByTime(5_000);
+    await settle();
+
+    expect(functionOutputs()).toEqual(["Timed out after 5s. Digits entered so far: 7"]);
+  });
+
+  test("times out without any keys and caps the wait at maxCollectSeconds", async () => {
+    callFunction("collect_digits", { timeoutSeconds: 600 });
+    await settle();
+    jest.advanceTimersByTime(29_999);
+    await settle();
+    expect(functionOutputs()).toEqual([]);
+
+    jest.advanceTimersByTime(1);
+    await settle();
+    expect(functionOutputs()).toEqual(["No keys were pressed within 30s."]);
+  });
+
+  test("refuses a second collection while one is running", async () => {
+    callFunction("collect_digits", { numDigits: 2 }, "fc_1");
+    await settle();
+    callFunction("collect_digits", { numDigits: 2 }, "fc_2");
+    await settle();
+
+    expect(functionOutputs()).toEqual(["Already waiting for digits."]);
+    press("1", "2");
+    await settle();
+    expect(functionOutputs()).toEqual(["Already waiting for digits.", "Digits entered: 12"]);
+  });
+
+  test("records the tool call on the call record", async () => {
+    callFunction("collect_digits", { numDigits: 1 });
+    await settle();
+    press("3");
+    await settle();
+
+    expect(manager.getByCallId("call-1")?.toolCalls?.at(-1)).toMatchObject({
+      name: "collect_digits",
+      args: { numDigits: 1 },
+      result: "Digits entered: 3",
+    });
+  });
+});
@@ -1,12 +1,37 @@
 import WebSocket from "ws";
-import type { PluginConfig } from "./config.ts";
+import { resolveCallSettings, type CallSettings, type PluginConfig } from "./config.ts";
 import type { CallManager } from "./call-manager.ts";
 import type { TwilioClient } from "./twilio-client.ts";
 import { DebugRecorder } from "./debug.ts";
-import { generateDtmfTone } from "./dtmf.ts";
+import { CallRecorder, type RecordingStore } from "./recording.ts";
+import { resolveRecordingConsent } from "./consent.ts";
+import { redactedLog } from "./redaction.ts";
+import { generateDtmfSequence } from "./dtmf.ts";
+import type { CallTransfer } from "./call-manager.ts";
+import type { AgentConsultBroker } from "./consult.ts";
+import { voiceToolRegistry } from "./voice-tools.ts";
+import { validateOutcomeDetails } from "./outcome-schema.ts";
 import { getSystemPrompt, type CallContext } from "./prompts.ts";
 
 const OPENAI_REALTIME_URL = "wss://api.openai.com/v1/realtime";
+// Lets the model finish "let me connect you" before Twilio cuts the stream
+const TRANSFER_DELAY_MS = 1500;
+// Line noise can cut a voicemail message short; say it again at most this often
+const MAX_VOICEMAIL_ATTEMPTS = 2;
+// Keys pressed in quick succession reach the model as one keypad entry
+const DTMF_BATCH_MS = 1500;
+const DEFAULT_COLLECT_SECONDS = 10;
+// How long Twilio gets to reconnect the media stream after playing digits
+const STREAM_RESTART_TIMEOUT_MS = 15_000;
+
+interface DigitCollection {
+  digits: string;
+  numDigits?: number;
+  terminator: string;
+  timeoutSeconds: number;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (result: string) => void;
+}
 
 export class RealtimeBridge {
   private twilioWs: WebSocket;
@@ -16,9 +41,28 @@ export class RealtimeBridge {
   private twilioClient: TwilioClient;
   private callId: string;
   private callContext: CallContext;
+  private settings: CallSettings;
   private debug: DebugRecorder;
+  private consult?: AgentConsultBroker;
+  private recordings?: RecordingStore;
+  private recorder: CallRecorder | null;
+  // Recorded calls hold off automatic responses until the disclosure is spoken
+  private awaitingDisclosure: boolean;
+  private disclosurePending = false;
+  private voicemailPending = false;
+  private voicemailAttempts = 0;
+  private voicemailLeft = false;
+  private responseActive = false;
+  private dtmfBuffer = "";
+  private dtmfTimer: ReturnType<typeof setTimeout> | null = null;
+  private digitCollection: DigitCollection | null = null;
+  // Set while Twilio plays digits and the media stream is restarting
+  private streamRestart: ((reconnected: boolean) => void) | null = null;
+  private systemPrompt = "";
   private streamSid: string | null = null;
   private closed = false;
+  // When the callee last stopped speaking, for speech-to-response latency
+  private speechStoppedAt: number | null = null;
 
   constructor(
     twilioWs: WebSocket,
@@ -26,7 +70,9 @@ export class RealtimeBridge {
     callManager: CallManager,
     twilioClient: TwilioClient,
     callId: string,
-    callContext: CallContext
+    callContext: CallContext,
+    consult?: AgentConsultBroker,
+    recordings?: RecordingStore
   ) {
     this.twilioWs = twilioWs;
     this.config = config;
@@ -34,13 +80,50 @@ export class RealtimeBridge {
     this.twilioClient = twilioClient;
     this.callId = callId;
     this.callContext = callContext;
-    this.debug = new DebugRecorder(callId, config.debug);
+    this.settings = callContext.settings ?? resolveCallSettings(config);
+    this.consult = consult;
+    this.recordings = recordings;
+
+    const record = callManager.getByCallId(callId);
+    const consent = resolveRecordingConsent(config.consent, record?.direction === "inbound" ? record.from : record?.to);
+    this.debug = new DebugRecorder(callId, config.debug, consent.allowed);
+    this.recorder = consent.allowed && recordings && config.recording.enabled ? new CallRecorder() : null;
+    const recorded = consent.allowed && (this.recorder !== null || config.debug);
+    this.awaitingDisclosure = recorded && config.consent.disclosure.length > 0;
+    callManager.setConsent(callId, {
+      recorded,
+      recordingAllowed: consent.allowed,
+      rule: consent.rule,
+      disclosed: false,
+    });
+    if (!consent.allowed && (config.recording.enabled || config.debug)) {
+      redactedLog.info(
+        `[openclaw-voice-gpt-realtime] Recording suppressed for call ${callId} by consent rule ${consent.rule ?? "(default)"}`
+      );
+    }
+
+    this.setupTwilioHandlers(twilioWs);
+  }
+
+  /** Waiting for Twilio to connect the media stream again. */
+  get awaitingStream(): boolean {
+    return this.streamRestart !== null && !this.closed;
+  }
+
+  /** Whether this socket is the call's live media stream. */
+  ownsStream(ws: WebSocket): boolean {
+    return ws === this.twilioWs && this.streamRestart === null;
+  }
 
-    this.setupTwilioHandlers();
+  /** Continue the call on a restarted media stream; the OpenAI session stays open. */
+  attachStream(ws: WebSocket): void {
+    this.twilioWs = ws;
+    this.setupTwilioHandlers(ws);
   }
 
-  private setupTwilioHandlers(): void {
-    this.twilioWs.on("message", (data) => {
+  private setupTwilioHandlers(ws: WebSocket): void {
+    ws.on("message", (data) => {
+      if (ws !== this.twilioWs) return;
       try {
         const msg = JSON.parse(data.toString());
         this.handleTwilioMessage(msg);
@@ -49,14 +132,14 @@ export class RealtimeBridge {
       }
     });
 
-    this.twilioWs.on("close", (code, reason) => {
+    ws.on("close", (code, reason) => {
       this.debug.logTwilio("close", `code=${code} reason=${reason}`);
-      this.close();
+      if (this.ownsStream(ws)) this.close();
     });
 
-    this.twilioWs.on("error", (err) => {
+    ws.on("error", (err) => {
       this.debug.logError("Twilio WebSocket error", err);
-      this.close();
+      if (this.ownsStream(ws)) this.close();
     });
   }
 
@@ -69,11 +152,17 @@ export class RealtimeBridge {
       case "start":
         this.streamSid = msg.start!.streamSid;
         this.callManager.setStreamSid(this.callId, this.streamSid);
+        this.recorder?.start();
         this.debug.logTwilio("start", `streamSid=${this.streamSid} callSid=${msg.start!.callSid}`);
-        this.connectToOpenAI();
+        if (this.streamRestart) {
+          this.streamRestart(true);
+        } else {
+          this.connectToOpenAI();
+        }
         break;
 
       case "media":
+        if (msg.media?.payload) this.recorder?.recordInbound(msg.media.payload, msg.media.timestamp);
         if (msg.media?.payload && this.openaiWs?.readyState === WebSocket.OPEN) {
           this.debug.recordInbound(msg.media.payload);
           // Forward audio to OpenAI Realtime
@@ -88,17 +177,68 @@ export class RealtimeBridge {
 
       case "stop":
         this.debug.logTwilio("stop");
-        this.close();
+        if (!this.streamRestart) this.close();
         break;
 
       case "mark":
         this.debug.logTwilio("mark", msg.mark?.name);
         break;
+
+      case "dtmf":
+        if (msg.dtmf?.digit) this.handleInboundDtmf(msg.dtmf.digit);
+        break;
     }
   }
 
+  /**
+   * A key the other person pressed. It feeds a running collect_digits call,
+   * or is batched with the keys that follow it and passed to the model.
+   */
+  private handleInboundDtmf(digit: string): void {
+    this.debug.logTwilio("dtmf", digit);
+
+    const collection = this.digitCollection;
+    if (collection) {
+      if (digit === collection.terminator) {
+        this.finishDigitCollection("terminator");
+      } else {
+        collection.digits += digit;
+        if (collection.numDigits && collection.digits.length >= collection.numDigits) this.finishDigitCollection("complete");
+      }
+      return;
+    }
+
+    this.dtmfBuffer += digit;
+    if (this.dtmfTimer) clearTimeout(this.dtmfTimer);
+    this.dtmfTimer = setTimeout(() => this.flushDtmf(), DTMF_BATCH_MS);
+  }
+
+  private flushDtmf(): void {
+    if (this.dtmfTimer) clearTimeout(this.dtmfTimer);
+    this.dtmfTimer = null;
+    const digits = this.dtmfBuffer;
+    this.dtmfBuffer = "";
+    if (!digits) return;
+
+    const role = this.remoteRole();
+    this.callManager.addTranscript(this.callId, role, `[Pressed ${digits}]`);
+    if (this.closed || !this.config.dtmf.forwardToModel || this.openaiWs?.readyState !== WebSocket.OPEN) return;
+
+    this.openaiWs.send(
+      JSON.stringify({
+        type: "conversation.item.create",
+        item: {
+          type: "message",
+          role: "user",
+          content: [{ type: "input_text", text: `[The ${role} pressed ${digits.split("").join(" ")} on their keypad]` }],
+        },
+      })
+    );
+    if (!this.responseActive) this.openaiWs.send(JSON.stringify({ type: "response.create" }));
+  }
+
   private connectToOpenAI(): void {
-    const url = `${OPENAI_REALTIME_URL}?model=${this.config.openai.model}`;
+    const url = `${OPENAI_REALTIME_URL}?model=${encodeURIComponent(this.settings.model)}`;
 
     this.openaiWs = new WebSocket(url, {
       headers: {
@@ -132,36 +272,44 @@ export class RealtimeBridge {
     });
   }
 
+  private buildSystemPrompt(): string {
+    return getSystemPrompt({
+      ...this.callContext,
+      transferAvailable: this.config.transfer.enabled,
+      consultAvailable: this.isConsultAvailable(),
+      collectDigitsAvailable: this.config.dtmf.collectDigits,
+    });
+  }
+
   private configureSession(): void {
-    const systemPrompt = getSystemPrompt(this.callContext);
+    const consultAvailable = this.isConsultAvailable();
+    const systemPrompt = this.buildSystemPrompt();
+    this.systemPrompt = systemPrompt;
 
     // Always log the system prompt for debugging prompt issues
-    console.log(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m direction=${this.callContext.direction} model=${this.config.openai.model} voice=${this.config.openai.voice}`);
-    console.log(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m callContext.task=${this.callContext.task}`);
+    redactedLog.info(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m direction=${this.callContext.direction} model=${this.settings.model} voice=${this.settings.voice}`);
+    redactedLog.info(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m callContext.task=${this.callContext.task}`);
     if (this.callContext.systemPrompt) {
-      console.log(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m callContext.systemPrompt=${this.callContext.systemPrompt.slice(0, 200)}${this.callContext.systemPrompt.length > 200 ? "..." : ""}`);
+      redactedLog.info(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m callContext.systemPrompt=${this.callContext.systemPrompt.slice(0, 200)}${this.callContext.systemPrompt.length > 200 ? "..." : ""}`);
     }
     if (this.callContext.agentName) {
-      console.log(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m agentName=${this.callContext.agentName}`);
+      redactedLog.info(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m agentName=${this.callContext.agentName}`);
     }
-    console.log(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m final instructions (${systemPrompt.length} chars):\n${systemPrompt}`);
+    redactedLog.info(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m final instructions (${systemPrompt.length} chars):\n${systemPrompt}`);
 
     const sessionConfig: OpenAISessionConfig = {
       type: "session.update",
       session: {
         modalities: ["text", "audio"],
         instructions: systemPrompt,
-        voice: this.config.openai.voice,
+        voice: this.settings.voice,
         input_audio_format: "g711_ulaw",
         output_audio_format: "g711_ulaw",
         input_audio_transcription: {
           model: "gpt-4o-transcribe",
+          ...(this.settings.language ? { language: this.settings.language } : {}),
         },
-        turn_detection: {
-          type: this.config.vad.type as "semantic_vad" | "server_vad",
-          eagerness: this.config.vad.eagerness,
-          silence_duration_ms: 500,
-        },
+        turn_detection: this.turnDetection(!this.awaitingDisclosure && !this.callContext.voicemail),
         tools: [
           {
             type: "function",
@@ -211,48 +359,256 @@ export class RealtimeBridge {
                   type: "string",
                   description: "Brief summary of the call outcome",
                 },
-                details: {
-                  type: "object",
-                  description:
-                    "Structured details (e.g. confirmation number, reservation time, price quotes)",
-                  additionalProperties: true,
-                },
+                details: this.settings.outcomeSchema
+                  ? {
+                      ...this.settings.outcomeSchema,
+                      description:
+                        "Structured details in exactly this shape. Fill in every field you learned on the call." +
+                        (typeof this.settings.outcomeSchema.description === "string"
+                          ? ` ${this.settings.outcomeSchema.description}`
+                          : ""),
+                    }
+                  : {
+                      type: "object",
+                      description:
+                        "Structured details (e.g. confirmation number, reservation time, price quotes)",
+                      additionalProperties: true,
+                    },
               },
-              required: ["success", "summary"],
+              required: this.settings.outcomeSchema ? ["success", "summary", "details"] : ["success", "summary"],
             },
           },
+          ...(this.config.dtmf.collectDigits
+            ? [
+                {
+                  type: "function" as const,
+                  name: "collect_digits",
+                  description:
+                    "Wait for the other person to type digits on their phone keypad (e.g. an account or confirmation number). " +
+                    "Ask them to enter it first, then call this. Returns once numDigits keys are pressed, they press the " +
+                    "terminator key, or the timeout passes.",
+                  parameters: {
+                    type: "object",
+                    properties: {
+                      numDigits: {
+                        type: "integer",
+                        minimum: 1,
+                        maximum: 32,
+                        description: "How many digits to wait for. Omit to wait for the terminator key or the timeout.",
+                      },
+                      terminator: {
+                        type: "string",
+                        enum: ["#", "*"],
+                        description: "Key that ends the entry early (default #). It is not part of the digits.",
+                      },
+                      timeoutSeconds: {
+                        type: "integer",
+                        minimum: 1,
+                        maximum: this.config.dtmf.maxCollectSeconds,
+                        description: `How long to wait in total (default ${Math.min(DEFAULT_COLLECT_SECONDS, this.config.dtmf.maxCollectSeconds)}).`,
+                      },
+                    },
+                  },
+                },
+              ]
+            : []),
+          ...(consultAvailable
+            ? [
+                {
+                  type: "function" as const,
+                  name: "ask_agent",
+                  description:
+                    "Ask the user you are calling for a question your brief doesn't answer (e.g. whether a different time works). " +
+                    "Say you'll check first; the answer can take a little while to arrive.",
+                  parameters: {
+                    type: "object",
+                    properties: {
+                      question: {
+                        type: "string",
+                        description: "The question for the user, with the context they need (e.g. 'They have no 7pm table — is 7:30 ok?')",
+                      },
+                    },
+                    required: ["question"],
+                  },
+                },
+              ]
+            : []),
+          ...(this.config.transfer.enabled
+            ? [
+                {
+                  type: "function" as const,
+                  name: "transfer_call",
+                  description:
+                    "Hand this call over to the user you are acting for, so they can speak to the other person directly. " +
+                    "Tell the other person you are connecting them first. You leave the call once it is transferred.",
+                  parameters: {
+                    type: "object",
+                    properties: {
+                      reason: {
+                        type: "string",
+                        description: "Why the user needs to take over (e.g. 'confirm payment details')",
+                      },
+                    },
+                    required: ["reason"],
+                  },
+                },
+              ]
+            : []),
+          ...voiceToolRegistry.list(this.settings.tools).map((tool) => ({
+            type: "function" as const,
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          })),
         ],
       },
     };
 
-    // For semantic_vad, remove silence_duration_ms (only used for server_vad)
-    if (this.config.vad.type === "semantic_vad") {
-      delete (sessionConfig.session.turn_detection as Record<string, unknown>).silence_duration_ms;
-    }
-
     const sessionPayload = JSON.stringify(sessionConfig);
     this.openaiWs!.send(sessionPayload);
     this.debug.logOpenAI("session.update", "configured");
     if (this.config.debug) {
-      console.log(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m full session.update payload:\n${JSON.stringify(sessionConfig, null, 2)}`);
+      redactedLog.info(`\x1b[35m[prompt]\x1b[0m \x1b[2m${this.callId}\x1b[0m full session.update payload:\n${JSON.stringify(sessionConfig, null, 2)}`);
     }
 
     if (this.callContext.direction === "inbound" && this.callContext.greeting) {
       // Inbound: speak the greeting immediately
+      const disclosure = this.awaitingDisclosure
+        ? ` Then tell them, in these words: "${this.config.consent.disclosure}".`
+        : "";
+      this.disclosurePending = this.awaitingDisclosure;
       this.openaiWs!.send(
         JSON.stringify({
           type: "response.create",
           response: {
             modalities: ["text", "audio"],
-            instructions: `Say exactly this greeting to the caller: "${this.callContext.greeting}". Say it naturally and warmly, then wait for their response.`,
+            instructions: `Say exactly this greeting to the caller: "${this.callContext.greeting}". Say it naturally and warmly.${disclosure} Then wait for their response.`,
           },
         })
       );
+    } else if (this.callContext.direction === "inbound") {
+      this.sendDisclosure();
+    } else if (this.callContext.voicemail) {
+      // The beep has sounded; nobody is going to greet us
+      this.sendVoicemailMessage();
     }
     // Outbound: do NOT send response.create — "listen first" behavior
     // The model will wait for the callee's greeting via VAD
   }
 
+  private turnDetection(createResponse: boolean): OpenAISessionConfig["session"]["turn_detection"] {
+    return {
+      type: this.settings.vad.type,
+      eagerness: this.settings.vad.eagerness,
+      // silence_duration_ms is only used by server_vad
+      ...(this.settings.vad.type === "server_vad" ? { silence_duration_ms: 500 } : {}),
+      create_response: createResponse,
+    };
+  }
+
+  /**
+   * Speak the recording disclosure as the AI's first turn. Automatic
+   * responses stay off until it has been spoken in full, so a barge-in just
+   * means it is repeated on the next turn.
+   */
+  private sendDisclosure(): void {
+    if (!this.awaitingDisclosure || this.disclosurePending || this.openaiWs?.readyState !== WebSocket.OPEN) return;
+    this.disclosurePending = true;
+    this.openaiWs.send(
+      JSON.stringify({
+        type: "response.create",
+        response: {
+          modalities: ["text", "audio"],
+          instructions:
+            `${this.systemPrompt}\n\nRIGHT NOW: Before anything else in this reply, tell the other person, in these words: ` +
+            `"${this.config.consent.disclosure}". Then continue the conversation as you normally would.`,
+        },
+      })
+    );
+  }
+
+  /**
+   * Leave a message on voicemail, led by the recording disclosure when one
+   * is due. Automatic responses stay off so the machine's line noise is not
+   * answered.
+   */
+  private sendVoicemailMessage(): void {
+    if (this.voicemailAttempts >= MAX_VOICEMAIL_ATTEMPTS || this.openaiWs?.readyState !== WebSocket.OPEN) return;
+    this.voicemailAttempts++;
+    this.voicemailPending = true;
+    this.disclosurePending = this.awaitingDisclosure;
+    const disclosure = this.awaitingDisclosure
+      ? ` Start with, in these words: "${this.config.consent.disclosure}".`
+      : "";
+    this.openaiWs.send(
+      JSON.stringify({
+        type: "response.create",
+        response: {
+          modalities: ["text", "audio"],
+          instructions: `${this.systemPrompt}\n\nRIGHT NOW: Leave your voicemail message.${disclosure}`,
+        },
+      })
+    );
+  }
+
+  /**
+   * Async AMD heard the voicemail beep mid-call: stop answering the greeting
+   * and leave the voicemail message instead. Before the OpenAI session is up,
+   * configureSession picks up the voicemail context on its own.
+   */
+  startVoicemail(): void {
+    if (this.closed || this.callContext.voicemail) return;
+    this.callContext = { ...this.callContext, voicemail: true };
+    this.callManager.addTranscript(this.callId, "system", "[Answering machine detected]");
+    if (this.openaiWs?.readyState !== WebSocket.OPEN) return;
+
+    this.systemPrompt = this.buildSystemPrompt();
+    this.openaiWs.send(
+      JSON.stringify({
+        type: "session.update",
+        session: { instructions: this.systemPrompt, turn_detection: this.turnDetection(false) },
+      })
+    );
+    if (this.responseActive) this.openaiWs.send(JSON.stringify({ type: "response.cancel" }));
+    // An interrupted disclosure is repeated as part of the voicemail message
+    this.disclosurePending = false;
+    this.sendVoicemailMessage();
+  }
+
+  /** Note on the call's outcome that a voicemail message was left. */
+  private recordVoicemailLeft(): void {
+    this.voicemailLeft = true;
+    this.callManager.addTranscript(this.callId, "system", "[Voicemail message left]");
+    const outcome = this.callManager.getByCallId(this.callId)?.outcome;
+    this.callManager.setOutcome(
+      this.callId,
+      outcome ? { ...outcome, voicemailLeft: true } : { success: false, summary: "Reached voicemail and left a message", voicemailLeft: true }
+    );
+  }
+
+  private handleResponseDone(event: OpenAIEvent): void {
+    const status = (event.response as { status?: string } | undefined)?.status;
+
+    if (this.voicemailPending) {
+      this.voicemailPending = false;
+      if (status === "completed") {
+        this.recordVoicemailLeft();
+      } else {
+        this.sendVoicemailMessage();
+      }
+    }
+
+    if (!this.disclosurePending) return;
+    this.disclosurePending = false;
+    if (status !== "completed") return;
+
+    this.awaitingDisclosure = false;
+    this.callManager.markConsentDisclosed(this.callId);
+    this.openaiWs?.send(
+      JSON.stringify({ type: "session.update", session: { turn_detection: this.turnDetection(!this.callContext.voicemail) } })
+    );
+  }
+
   private handleOpenAIEvent(event: OpenAIEvent): void {
     switch (event.type) {
       case "session.created":
@@ -269,11 +625,25 @@ export class RealtimeBridge {
 
       case "input_audio_buffer.speech_stopped":
         this.debug.logOpenAI("input_audio_buffer.speech_stopped");
+        this.speechStoppedAt = Date.now();
+        this.sendDisclosure();
         break;
 
       case "response.audio.delta":
+        if (this.speechStoppedAt !== null) {
+          const now = Date.now();
+          this.callManager.events.emit({
+            type: "latency",
+            callId: this.callId,
+            ts: now,
+            metric: "speech_to_response",
+            ms: now - this.speechStoppedAt,
+          });
+          this.speechStoppedAt = null;
+        }
         if (event.delta && this.twilioWs.readyState === WebSocket.OPEN) {
           this.debug.recordOutbound(event.delta);
+          this.recorder?.recordOutbound(event.delta);
           this.twilioWs.send(
             JSON.stringify({
               event: "media",
@@ -289,7 +659,8 @@ export class RealtimeBridge {
         break;
 
       case "response.audio_transcript.delta":
-        // Partial AI transcript — just log in debug
+        // Partial AI transcript — only streamed to live monitors
+        if (event.delta) this.emitPartialTranscript("assistant", event.delta);
         break;
 
       case "response.audio_transcript.done":
@@ -299,26 +670,33 @@ export class RealtimeBridge {
         }
         break;
 
+      case "conversation.item.input_audio_transcription.delta":
+        if (event.delta) this.emitPartialTranscript(this.remoteRole(), event.delta);
+        break;
+
       case "conversation.item.input_audio_transcription.completed":
         if (event.transcript) {
-          const role = this.callContext.direction === "inbound" ? "caller" : "callee";
           this.debug.logOpenAI("input_transcription", event.transcript);
-          this.callManager.addTranscript(this.callId, role, event.transcript);
+          this.callManager.addTranscript(this.callId, this.remoteRole(), event.transcript);
         }
         break;
 
       case "response.function_call_arguments.done":
-        this.handleFunctionCall(event);
+        void this.handleFunctionCall(event).catch((err) => this.handleFunctionCallError(event, err));
         break;
 
       case "response.done":
         this.debug.logOpenAI("response.done");
+        this.responseActive = false;
+        this.handleResponseDone(event);
         break;
 
       case "response.created":
         this.debug.logOpenAI("response.created");
+        this.responseActive = true;
         // Clear Twilio's audio buffer for barge-in support
         if (this.twilioWs.readyState === WebSocket.OPEN) {
+          this.recorder?.clearOutbound();
           this.twilioWs.send(
             JSON.stringify({
               event: "clear",
@@ -340,6 +718,14 @@ export class RealtimeBridge {
     }
   }
 
+  private remoteRole(): "caller" | "callee" {
+    return this.callContext.direction === "inbound" ? "caller" : "callee";
+  }
+
+  private emitPartialTranscript(role: string, text: string): void {
+    this.callManager.events.emit({ type: "transcript", callId: this.callId, ts: Date.now(), role, text, final: false });
+  }
+
   private async handleFunctionCall(event: OpenAIEvent): Promise<void> {
     const fnName = event.name;
     const callId = event.call_id;
@@ -359,6 +745,9 @@ export class RealtimeBridge {
       case "send_dtmf":
         result = await this.handleSendDtmf(args.digits as string);
         break;
+      case "collect_digits":
+        result = this.config.dtmf.collectDigits ? await this.handleCollectDigits(args) : "collect_digits is not available.";
+        break;
 
       case "end_call":
         result = await this.handleEndCall(args.reason as string);
@@ -368,26 +757,52 @@ export class RealtimeBridge {
         result = this.handleReportOutcome(args as { success: boolean; summary: string; details?: Record<string, unknown> });
         break;
 
+      case "ask_agent":
+        result = await this.handleAskAgent(args.question as string);
+        break;
+
+      case "transfer_call":
+        await new Promise((resolve) => setTimeout(resolve, TRANSFER_DELAY_MS));
+        result = (await this.transfer({ reason: args.reason as string | undefined, requestedBy: "model" })).message;
+        break;
+
       default:
-        result = `Unknown function: ${fnName}`;
+        result = await this.handleCustomTool(fnName ?? "", args);
     }
 
-    // Send function result back to OpenAI
-    if (this.openaiWs?.readyState === WebSocket.OPEN) {
-      this.openaiWs.send(
-        JSON.stringify({
-          type: "conversation.item.create",
-          item: {
-            type: "function_call_output",
-            call_id: callId,
-            output: result,
-          },
-        })
-      );
+    this.callManager.addToolCall(this.callId, fnName || "unknown", args, result);
+    this.sendFunctionOutput(callId, result);
+  }
 
-      // Trigger a new response after function result
-      this.openaiWs.send(JSON.stringify({ type: "response.create" }));
-    }
+  /**
+   * A tool handler threw. The model still needs a function_call_output,
+   * otherwise it waits on the result and the call goes silent.
+   */
+  private handleFunctionCallError(event: OpenAIEvent, err: unknown): void {
+    const fnName = event.name || "unknown";
+    const message = err instanceof Error ? err.message : String(err);
+    redactedLog.error(`[openclaw-voice-gpt-realtime] Function ${fnName} failed on call ${this.callId}: ${message}`);
+    this.debug.logError(`Function ${fnName} failed`, err);
+    const result = `${fnName} failed: ${message}. Continue the call.`;
+    this.callManager.addToolCall(this.callId, fnName, {}, result);
+    this.sendFunctionOutput(event.call_id, result);
+  }
+
+  private sendFunctionOutput(callId: string | undefined, output: string): void {
+    if (this.openaiWs?.readyState !== WebSocket.OPEN) return;
+    this.openaiWs.send(
+      JSON.stringify({
+        type: "conversation.item.create",
+        item: {
+          type: "function_call_output",
+          call_id: callId,
+          output,
+        },
+      })
+    );
+
+    // Trigger a new response after function result
+    this.openaiWs.send(JSON.stringify({ type: "response.create" }));
   }
 
   private async handleSendDtmf(digits: string): Promise<string> {
@@ -395,25 +810,141 @@ export class RealtimeBridge {
       return "Invalid DTMF digits. Use 0-9, *, #, A-D.";
     }
 
-    for (const digit of digits) {
-      const tone = generateDtmfTone(digit);
-      if (this.twilioWs.readyState === WebSocket.OPEN) {
-        this.twilioWs.send(
-          JSON.stringify({
-            event: "media",
-            streamSid: this.streamSid,
-            media: { payload: tone },
-          })
-        );
-      }
-      // Small gap between tones
-      await new Promise((resolve) => setTimeout(resolve, 100));
+    // <Play digits> has no A-D keys, so those always go in-band
+    if (this.config.dtmf.sendMode === "twilio" && /^[0-9*#]+$/.test(digits)) {
+      const error = await this.playDigitsViaTwilio(digits);
+      if (error) return error;
+    } else {
+      await this.playDtmfTones(digits);
     }
 
     this.callManager.addTranscript(this.callId, "system", `[DTMF: ${digits}]`);
     return `Pressed ${digits}`;
   }
 
+  /** Send generated tones on the media stream and wait until they have played. */
+  private async playDtmfTones(digits: string): Promise<void> {
+    if (this.twilioWs.readyState !== WebSocket.OPEN) return;
+
+    const { toneDurationMs, gapMs, levelDbm0 } = this.config.dtmf;
+    for (const payload of generateDtmfSequence(digits, { durationMs: toneDurationMs, gapMs, levelDbm0 })) {
+      this.recorder?.recordOutbound(payload);
+      this.twilioWs.send(
+        JSON.stringify({
+          event: "media",
+          streamSid: this.streamSid,
+          media: { payload },
+        })
+      );
+    }
+    // The function result starts a new response, which clears Twilio's
+    // playback buffer and would cut off tones still queued
+    const playbackMs = digits.length * toneDurationMs + (digits.length - 1) * gapMs;
+    await new Promise((resolve) => setTimeout(resolve, playbackMs));
+  }
+
+  /**
+   * Press keys with Twilio's <Play digits>. Twilio ends the media stream to
+   * play them and connects a new one afterwards. Returns an error message
+   * for the model, or null once the stream is back.
+   */
+  private async playDigitsViaTwilio(digits: string): Promise<string | null> {
+    const callSid = this.callManager.getByCallId(this.callId)?.callSid;
+    const streamUrl = this.callContext.streamUrl;
+    if (!callSid || !streamUrl) {
+      await this.playDtmfTones(digits);
+      return null;
+    }
+
+    const restarted = new Promise<boolean>((resolve) => {
+      this.streamRestart = resolve;
+    });
+    const timer = setTimeout(() => this.streamRestart?.(false), STREAM_RESTART_TIMEOUT_MS);
+    try {
+      await this.twilioClient.sendDigits(callSid, { digits, streamUrl, callId: this.callId });
+    } catch (err) {
+      this.debug.logError("Failed to send digits through Twilio", err);
+      this.streamRestart?.(false);
+      clearTimeout(timer);
+      this.streamRestart = null;
+      return `Failed to press ${digits}.`;
+    }
+
+    const reconnected = await restarted;
+    clearTimeout(timer);
+    this.streamRestart = null;
+    if (!reconnected) {
+      redactedLog.info(`[openclaw-voice-gpt-realtime] Media stream for call ${this.callId} did not come back after sending digits`);
+      void this.close();
+      return "The call ended while pressing keys.";
+    }
+    return null;
+  }
+
+  private handleCollectDigits(args: Record<string, unknown>): Promise<string> {
+    if (this.digitCollection) return Promise.resolve("Already waiting for digits.");
+
+    const maxSeconds = this.config.dtmf.maxCollectSeconds;
+    const numDigits =
+      typeof args.numDigits === "number" && Number.isInteger(args.numDigits) && args.numDigits > 0
+        ? Math.min(args.numDigits, 32)
+        : undefined;
+    const terminator = args.terminator === "*" ? "*" : "#";
+    const timeoutSeconds =
+      typeof args.timeoutSeconds === "number" && args.timeoutSeconds > 0
+        ? Math.min(Math.ceil(args.timeoutSeconds), maxSeconds)
+        : Math.min(DEFAULT_COLLECT_SECONDS, maxSeconds);
+    this.debug.logTool("collect_digits", JSON.stringify({ numDigits, terminator, timeoutSeconds }));
+
+    // Keys pressed while the model was still asking count toward the entry
+    const early = this.dtmfBuffer;
+    this.dtmfBuffer = "";
+    if (this.dtmfTimer) clearTimeout(this.dtmfTimer);
+    this.dtmfTimer = null;
+
+    return new Promise((resolve) => {
+      this.digitCollection = {
+        digits: "",
+        numDigits,
+        terminator,
+        timeoutSeconds,
+        timer: setTimeout(() => this.finishDigitCollection("timeout"), timeoutSeconds * 1000),
+        resolve,
+      };
+      for (const digit of early) {
+        if (this.digitCollection) this.handleInboundDtmf(digit);
+      }
+    });
+  }
+
+  private finishDigitCollection(reason: "complete" | "terminator" | "timeout" | "ended"): void {
+    const collection = this.digitCollection;
+    if (!collection) return;
+    this.digitCollection = null;
+    clearTimeout(collection.timer);
+
+    const { digits } = collection;
+    if (digits || reason === "terminator") {
+      this.callManager.addTranscript(
+        this.callId,
+        this.remoteRole(),
+        `[Pressed ${digits}${reason === "terminator" ? collection.terminator : ""}]`
+      );
+    }
+
+    if (reason === "ended") {
+      collection.resolve("The call ended before the digits were entered.");
+    } else if (reason === "timeout") {
+      collection.resolve(
+        digits
+          ? `Timed out after ${collection.timeoutSeconds}s. Digits entered so far: ${digits}`
+          : `No keys were pressed within ${collection.timeoutSeconds}s.`
+      );
+    } else {
+      collection.resolve(digits ? `Digits entered: ${digits}` : "They pressed the terminator key without entering any digits.");
+    }
+  }
+
   private async handleEndCall(reason: string): Promise<string> {
     this.debug.logTool("end_call", reason);
     this.callManager.addTranscript(this.callId, "system", `[Call ended: ${reason}]`);
@@ -434,22 +965,210 @@ export class RealtimeBridge {
     return `Call will end. Reason: ${reason}`;
   }
 
+  private async handleCustomTool(name: string, args: Record<string, unknown>): Promise<string> {
+    const allowed = !this.settings.tools || this.settings.tools.includes(name);
+    const record = this.callManager.getByCallId(this.callId);
+    if (!allowed || !record || !voiceToolRegistry.has(name)) {
+      return `Unknown function: ${name}`;
+    }
+
+    return voiceToolRegistry.invoke(
+      name,
+      args,
+      {
+        callId: this.callId,
+        direction: record.direction,
+        to: record.to,
+        from: record.from,
+        task: record.task,
+      },
+      this.config.customTools.timeoutSeconds * 1000
+    );
+  }
+
+  private isConsultAvailable(): boolean {
+    if (!this.consult || !this.config.consult.enabled) return false;
+    return Boolean(this.callManager.getByCallId(this.callId)?.sessionKey);
+  }
+
+  private async handleAskAgent(rawQuestion: string): Promise<string> {
+    const question = typeof rawQuestion === "string" ? rawQuestion.trim() : "";
+    const record = this.callManager.getByCallId(this.callId);
+    if (!question) return "Missing question.";
+    if (!this.consult || !record) return "Asking the user is not available on this call. Carry on without it.";
+
+    this.callManager.addTranscript(this.callId, "system", `[Asked agent: ${question}]`);
+
+    const fillerMs = this.config.consult.fillerIntervalSeconds * 1000;
+    const filler = fillerMs > 0 ? setInterval(() => this.sendHoldFiller(), fillerMs) : null;
+    let result: Awaited<ReturnType<AgentConsultBroker["ask"]>>;
+    try {
+      result = await this.consult.ask(record, question, this.config.consult.timeoutSeconds * 1000);
+    } finally {
+      if (filler) clearInterval(filler);
+    }
+
+    switch (result.status) {
+      case "answered":
+        this.callManager.addTranscript(this.callId, "system", `[Agent answered: ${result.answer}]`);
+        return `The user answered: ${result.answer}`;
+      case "timeout":
+        this.callManager.addTranscript(this.callId, "system", "[Agent did not answer in time]");
+        return "The user did not answer in time. Tell the other person you'll need to confirm and follow up, and carry on without this information.";
+      case "undeliverable":
+        return "The user can't be reached right now. Carry on without this information.";
+      case "cancelled":
+        return "The question was withdrawn. Carry on.";
+    }
+  }
+
+  /**
+   * Out-of-band response that keeps the other person company while ask_agent
+   * waits; it does not enter the conversation the model reasons over.
+   */
+  private sendHoldFiller(): void {
+    if (this.openaiWs?.readyState !== WebSocket.OPEN) return;
+    this.openaiWs.send(
+      JSON.stringify({
+        type: "response.create",
+        response: {
+          conversation: "none",
+          modalities: ["text", "audio"],
+          instructions:
+            "In one short, natural sentence, tell the other person you're still checking and thank them for holding. Say nothing else.",
+        },
+      })
+    );
+  }
+
   private handleReportOutcome(args: { success: boolean; summary: string; details?: Record<string, unknown> }): string {
+    const schema = this.settings.outcomeSchema;
+    const validation = schema ? validateOutcomeDetails(schema, args.details) : undefined;
     this.callManager.setOutcome(this.callId, {
       success: args.success,
       summary: args.summary,
       details: args.details,
+      validation,
+      ...(this.voicemailLeft ? { voicemailLeft: true } : {}),
     });
 
     this.debug.logTool("report_outcome", JSON.stringify(args));
+    if (validation && !validation.valid) {
+      const problems = [
+        ...(validation.missing.length > 0 ? [`missing ${validation.missing.join(", ")}`] : []),
+        ...validation.errors,
+      ];
+      return (
+        `Outcome recorded, but details are incomplete: ${problems.join("; ")}. ` +
+        "If you can still get this information on the call, ask for it and call report_outcome again."
+      );
+    }
     return "Outcome recorded.";
   }
 
+  /**
+   * Steer the live conversation on behalf of an operator. "say" asks the
+   * model to relay a message to the other person; "instruct" adds guidance
+   * the other person never hears. Both are injected as system items.
+   */
+  injectMessage(opts: { mode: "say" | "instruct"; text: string; respond: boolean }): { success: boolean; message: string } {
+    if (this.openaiWs?.readyState !== WebSocket.OPEN) {
+      return { success: false, message: "Realtime session is not connected." };
+    }
+
+    const text =
+      opts.mode === "say"
+        ? `The user you are acting for wants you to tell the other person: "${opts.text}". Relay it naturally in your own words.`
+        : `Instruction from the user you are acting for (the other person cannot hear this): ${opts.text}`;
+
+    this.openaiWs.send(
+      JSON.stringify({
+        type: "conversation.item.create",
+        item: {
+          type: "message",
+          role: "system",
+          content: [{ type: "input_text", text }],
+        },
+      })
+    );
+    if (opts.respond) {
+      this.openaiWs.send(JSON.stringify({ type: "response.create" }));
+    }
+
+    this.callManager.addTranscript(this.callId, "operator", `${opts.mode === "say" ? "Say" : "Instruction"}: ${opts.text}`);
+    this.debug.logOpenAI("operator_inject", `${opts.mode} respond=${opts.respond}`);
+    return { success: true, message: opts.respond ? "Injected; the voice agent is responding." : "Injected." };
+  }
+
+  /**
+   * Hand the live call to a person by redirecting it to a <Dial>. The
+   * realtime session is shut down, but the Twilio call stays up; its final
+   * status arrives through the status callback once the person hangs up.
+   */
+  async transfer(opts: {
+    target?: string;
+    reason?: string;
+    requestedBy: CallTransfer["requestedBy"];
+  }): Promise<{ success: boolean; message: string }> {
+    const target = opts.target ?? this.config.transfer.target;
+    if (!target) {
+      return { success: false, message: "Transfer is not configured (transfer.target)." };
+    }
+
+    const record = this.callManager.getByCallId(this.callId);
+    if (!record?.callSid) {
+      return { success: false, message: "Call is not connected yet; cannot transfer." };
+    }
+    if (record.transfer) {
+      return { success: false, message: `Call was already transferred to ${record.transfer.target}.` };
+    }
+
+    const reason = opts.reason?.trim() || undefined;
+    // Mark before the Twilio update so the stream closing doesn't complete the call
+    this.callManager.setTransfer(this.callId, { target, reason, requestedBy: opts.requestedBy, at: Date.now() });
+
+    try {
+      await this.twilioClient.transfer(record.callSid, {
+        target,
+        announcement: this.config.transfer.announcement,
+        timeoutSeconds: this.config.transfer.timeoutSeconds,
+      });
+    } catch (err) {
+      this.callManager.setTransfer(this.callId, undefined);
+      this.debug.logError("Failed to transfer call", err);
+      return {
+        success: false,
+        message: `Transfer failed: ${err instanceof Error ? err.message : String(err)}. Continue the call.`,
+      };
+    }
+
+    this.callManager.addTranscript(
+      this.callId,
+      "system",
+      `[Transferred to ${target} by ${opts.requestedBy}${reason ? `: ${reason}` : ""}]`
+    );
+    if (!record.outcome) {
+      this.callManager.setOutcome(this.callId, {
+        success: true,
+        summary: `Call handed over to ${target}${reason ? ` (${reason})` : ""}`,
+      });
+    }
+    redactedLog.info(`[openclaw-voice-gpt-realtime] Call ${this.callId} transferred to ${target} by ${opts.requestedBy}`);
+
+    void this.close();
+    return { success: true, message: `Call transferred to ${target}.` };
+  }
+
   async close(): Promise<void> {
     if (this.closed) return;
     this.closed = true;
 
     this.debug.logTwilio("bridge_closing");
+    this.streamRestart?.(false);
+    this.consult?.cancel(this.callId);
+    this.finishDigitCollection("ended");
+    // Keys still waiting for their batch go to the transcript
+    this.flushDtmf();
 
     // Close OpenAI connection
     if (this.openaiWs && this.openaiWs.readyState === WebSocket.OPEN) {
@@ -462,11 +1181,21 @@ export class RealtimeBridge {
     }
 
     // Finalize debug recordings
-    const record = this.callManager.getByCallId(this.callId);
+    const record = this.callManager.findCall({ callId: this.callId });
     await this.debug.finalize(record?.transcript || []);
 
-    // Update call status if not already completed
-    if (record && record.status === "in-progress") {
+    if (this.recorder && this.recordings) {
+      try {
+        const saved = this.recordings.save(this.callId, this.recorder);
+        if (saved) redactedLog.info(`[openclaw-voice-gpt-realtime] Saved recording for call ${this.callId} (${saved.durationSeconds}s)`);
+      } catch (err) {
+        this.debug.logError("Failed to save call recording", err);
+      }
+    }
+
+    // Update call status if not already completed. A transferred call is
+    // still live; Twilio's status callback reports when it really ends.
+    if (record && record.status === "in-progress" && !record.transfer) {
       this.callManager.updateStatus(this.callId, "completed");
     }
   }
@@ -474,7 +1203,7 @@ export class RealtimeBridge {
 
 // TypeScript interfaces for Twilio stream messages
 interface TwilioStreamMessage {
-  event: "connected" | "start" | "media" | "stop" | "mark";
+  event: "connected" | "start" | "media" | "stop" | "mark" | "dtmf";
   start?: {
     streamSid: string;
     callSid: string;
@@ -491,6 +1220,10 @@ interface TwilioStreamMessage {
   mark?: {
     name: string;
   };
+  dtmf?: {
+    track: string;
+    digit: string;
+  };
 }
 
 // OpenAI Realtime API types
@@ -502,11 +1235,12 @@ interface OpenAISessionConfig {
     voice: string;
     input_audio_format: string;
     output_audio_format: string;
-    input_audio_transcription: { model: string };
+    input_audio_transcription: { model: string; language?: string };
     turn_detection: {
       type: "semantic_vad" | "server_vad";
       eagerness?: string;
       silence_duration_ms?: number;
+      create_response?: boolean;
     };
     tools: Array<{
       type: "function";
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MULAW_SILENCE } from "./g711.ts";
+import { CallRecorder, RecordingStore } from "./recording.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const T0 = new Date("2026-03-01T12:00:00Z").getTime();
+const SAMPLES_PER_MS = 8;
+
+/** Base64 μ-law payload of `samples` bytes all set to `value`. */
+function audio(value: number, samples: number): string {
+  return Buffer.alloc(samples, value).toString("base64");
+}
+
+/** Split a stereo μ-law WAV into its left (inbound) and right (AI) tracks. */
+function tracks(wav: Uint8Array): { left: number[]; right: number[] } {
+  const data = wav.subarray(44);
+  const left: number[] = [];
+  const right: number[] = [];
+  for (let i = 0; i < data.length; i += 2) {
+    left.push(data[i]!);
+    right.push(data[i + 1]!);
+  }
+  return { left, right };
+}
+
+function at(ms: number): void {
+  setSystemTime(new Date(T0 + ms));
+}
+
+describe("CallRecorder", () => {
+  beforeEach(() => {
+    at(0);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("places inbound audio at its Twilio timestamp, not its arrival time", () => {
+    const recorder = new CallRecorder();
+    recorder.start();
+    recorder.recordInbound(audio(0x11, 8), "0");
+    // Arrives 30ms late; the timestamp still puts it at 20ms
+    at(50);
+    recorder.recordInbound(audio(0x12, 8), "20");
+
+    const { left } = tracks(recorder.toWav());
+    expect(left.slice(0, 8)).toEqual(Array(8).fill(0x11));
+    expect(left.slice(8, 20 * SAMPLES_PER_MS)).toEqual(Array(20 * SAMPLES_PER_MS - 8).fill(MULAW_SILENCE));
+    expect(left.slice(160, 168)).toEqual(Array(8).fill(0x12));
+  });
+
+  test("queues outbound audio at the playhead of the inbound stream clock", () => {
+    const recorder = new CallRecorder();
+    recorder.start();
+    at(50);
+    recorder.recordInbound(audio(0x11, 8), "20");
+    recorder.recordOutbound(audio(0x22, 16));
+    // A second chunk starts when the first one finishes playing
+    recorder.recordOutbound(audio(0x33, 16));
+
+    const { left, right } = tracks(recorder.toWav());
+    expect(left.slice(160, 168)).toEqual(Array(8).fill(0x11));
+    expect(right.slice(0, 160)).toEqual(Array(160).fill(MULAW_SILENCE));
+    expect(right.slice(160, 176)).toEqual(Array(16).fill(0x22));
+    expect(right.slice(176, 192)).toEqual(Array(16).fill(0x33));
+  });
+
+  test("starts outbound audio at the current time once the line has gone quiet", () => {
+    const recorder = new CallRecorder();
+    recorder.start();
+    recorder.recordInbound(audio(0x11, 8), "0");
+    recorder.recordOutbound(audio(0x22, 8));
+    at(100);
+    recorder.recordOutbound(audio(0x33, 8));
+
+    const { right } = tracks(recorder.toWav());
+    expect(right.slice(0, 8)).toEqual(Array(8).fill(0x22));
+    expect(right.slice(800, 808)).toEqual(Array(8).fill(0x33));
+  });
+
+  test("clearOutbound drops AI audio that was never played", () => {
+    const recorder = new CallRecorder();
+    recorder.start();
+    recorder.recordInbound(audio(0x11, 8), "0");
+    // 100ms of queued speech, cut off by a barge-in after 25ms
+    recorder.recordOutbound(audio(0x22, 800));
+    at(25);
+    recorder.clearOutbound();
+    recorder.recordOutbound(audio(0x33, 8));
+
+    const { right } = tracks(recorder.toWav());
+    expect(right).toHaveLength(208);
+    expect(right.slice(0, 200)).toEqual(Array(200).fill(0x22));
+    expect(right.slice(200, 208)).toEqual(Array(8).fill(0x33));
+  });
+
+  test("clearOutbound keeps audio that has already played", () => {
+    const recorder = new CallRecorder();
+    recorder.start();
+    recorder.recordOutbound(audio(0x22, 80));
+    at(50);
+    recorder.clearOutbound();
+
+    const { right } = tracks(recorder.toWav());
+    expect(right).toEqual(Array(80).fill(0x22));
+  });
+
+  test("continues the timeline after a stream restart", () => {
+    const recorder = new CallRecorder();
+    recorder.start();
+    recorder.recordInbound(audio(0x11, 8), "0");
+    at(100);
+    recorder.recordInbound(audio(0x12, 8), "100");
+    // sendDigits restarts the stream 50ms later; its timestamps count from zero again
+    at(150);
+    recorder.start();
+    recorder.recordInbound(audio(0x13, 8), "0");
+    recorder.recordOutbound(audio(0x22, 8));
+
+    const { left, right } = tracks(recorder.toWav());
+    expect(left.slice(800, 808)).toEqual(Array(8).fill(0x12));
+    expect(left.slice(808, 1200)).toEqual(Array(392).fill(MULAW_SILENCE));
+    expect(left.slice(1200, 1208)).toEqual(Array(8).fill(0x13));
+    expect(right.slice(1200, 1208)).toEqual(Array(8).fill(0x22));
+  });
+
+  test("has no audio until something is recorded", () => {
+    const recorder = new CallRecorder();
+    recorder.start();
+    expect(recorder.hasAudio).toBe(false);
+    recorder.recordOutbound(audio(0x22, 8));
+    expect(recorder.hasAudio).toBe(true);
+  });
+});
+
+describe("RecordingStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "voice-rt-recordings-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createStore(options: Partial<{ retentionDays: number; maxRecordings: number }> = {}): RecordingStore {
+    return new RecordingStore({ retentionDays: 30, maxRecordings: 500, ...options }, dir);
+  }
+
+  function recorded(): CallRecorder {
+    const recorder = new CallRecorder();
+    recorder.start();
+    recorder.recordInbound(audio(0x11, 16_000), "0");
+    return recorder;
+  }
+
+  /** Save a recording and backdate its file by `ageMs`. */
+  function saveAged(store: RecordingStore, callId: string, ageMs: number): void {
+    const path = store.save(callId, recorded())!.path;
+    const mtime = new Date(Date.now() - ageMs);
+    utimesSync(path, mtime, mtime);
+  }
+
+  test("saves a stereo WAV and reports its duration", () => {
+    const info = createStore().save("call-1", recorded());
+    expect(info).toMatchObject({ callId: "call-1", bytes: 44 + 2 * 16_000, durationSeconds: 2 });
+    expect(createStore().read("call-1")?.subarray(0, 4).toString()).toBe("RIFF");
+  });
+
+  test("does not write a file for a call without audio", () => {
+    const recorder = new CallRecorder();
+    recorder.start();
+    expect(createStore().save("call-1", recorder)).toBeUndefined();
+    expect(existsSync(join(dir, "call-1.wav"))).toBe(false);
+  });
+
+  test("keeps callIds inside the recordings directory", () => {
+    const info = createStore().save("../../etc/passwd", recorded());
+    expect(info?.path).toBe(join(dir, "______etc_passwd.wav"));
+  });
+
+  test("prune drops recordings past the retention period", () => {
+    const store = createStore({ retentionDays: 7 });
+    saveAged(store, "kept", 6 * DAY_MS);
+    saveAged(store, "expired", 8 * DAY_MS);
+
+    expect(store.prune()).toBe(1);
+    expect(store.list().map((r) => r.callId)).toEqual(["kept"]);
+    expect(store.get("expired")).toBeUndefined();
+  });
+
+  test("prune keeps only the newest maxRecordings", () => {
+    const store = createStore({ maxRecordings: 2 });
+    saveAged(store, "oldest", 3 * DAY_MS);
+    saveAged(store, "middle", 2 * DAY_MS);
+    // Saving a third recording prunes on its own
+    saveAged(store, "newest", DAY_MS);
+    expect(store.prune()).toBe(0);
+
+    expect(store.list().map((r) => r.callId)).toEqual(["newest", "middle"]);
+  });
+
+  test("list leaves out debug-mode per-direction files", () => {
+    const store = createStore({ maxRecordings: 1 });
+    writeFileSync(join(dir, "call-1-inbound.wav"), "debug");
+    writeFileSync(join(dir, "call-1-outbound.wav"), "debug");
+    store.save("call-1", recorded());
+
+    expect(store.list().map((r) => r.callId)).toEqual(["call-1"]);
+    // ...and so pruning never counts or deletes them
+    expect(store.prune()).toBe(0);
+    expect(existsSync(join(dir, "call-1-inbound.wav"))).toBe(true);
+    expect(existsSync(join(dir, "call-1-outbound.wav"))).toBe(true);
+  });
+
+  test("list is empty before anything was recorded", () => {
+    expect(new RecordingStore({ retentionDays: 30, maxRecordings: 500 }, join(dir, "missing")).list()).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { DATA_DIR } from "./call-store.ts";
+import { createMulawWav } from "./debug.ts";
+import { MULAW_SILENCE } from "./g711.ts";
+
+const RECORDINGS_DIR = join(DATA_DIR, "recordings");
+// Debug mode writes per-direction files into the same directory
+const DEBUG_FILE_PATTERN = /-(inbound|outbound)\.wav$/;
+const SAMPLES_PER_MS = 8;
+const WAV_HEADER_BYTES = 44;
+const STEREO_BYTES_PER_SECOND = 16_000;
+
+export interface RecordingStoreOptions {
+  retentionDays: number;
+  maxRecordings: number;
+}
+
+export interface RecordingInfo {
+  callId: string;
+  path: string;
+  bytes: number;
+  durationSeconds: number;
+  createdAt: number;
+}
+
+interface AudioChunk {
+  /** Position on the stream timeline, in samples. */
+  offset: number;
+  data: Buffer;
+}
+
+/**
+ * Captures both sides of a call on one timeline for a stereo recording
+ * (callee/caller left, AI right).
+ *
+ * Inbound audio is placed at its Twilio media timestamp. Outbound audio is
+ * queued at Twilio's playhead: it starts when the previous chunk finishes
+ * playing, or now if the line has gone quiet. When the bridge tells Twilio to
+ * clear its buffer (barge-in), audio that was never played is dropped.
+ * Gaps on either side are μ-law silence.
+ */
+export class CallRecorder {
+  private inbound: AudioChunk[] = [];
+  private outbound: AudioChunk[] = [];
+  private outboundEnd = 0;
+  // Anchors the stream clock to the latest inbound media timestamp
+  private lastInboundTimestamp = 0;
+  private lastInboundAt: number | null = null;
+  private streamStartedAt: number | null = null;
+  // Where the current stream's media timestamps start on the call timeline
+  private timestampBaseMs = 0;
+
+  /**
+   * Twilio "start" event; the stream clock begins here. A restarted stream
+   * (after Twilio plays DTMF digits) counts from zero again, so the call
+   * timeline continues from where the previous stream left off.
+   */
+  start(): void {
+    const now = Date.now();
+    if (this.streamStartedAt !== null) this.timestampBaseMs = this.streamNowMs(now);
+    this.streamStartedAt = now;
+    this.lastInboundAt = null;
+  }
+
+  recordInbound(audioBase64: string, timestamp: string | undefined): void {
+    const now = Date.now();
+    const ms = Number(timestamp);
+    const streamMs = Number.isFinite(ms) ? this.timestampBaseMs + ms : this.streamNowMs(now);
+    this.lastInboundTimestamp = streamMs;
+    this.lastInboundAt = now;
+    this.inbound.push({ offset: Math.round(streamMs * SAMPLES_PER_MS), data: Buffer.from(audioBase64, "base64") });
+  }
+
+  recordOutbound(audioBase64: string): void {
+    const data = Buffer.from(audioBase64, "base64");
+    const offset = Math.max(this.outboundEnd, this.nowSamples());
+    this.outbound.push({ offset, data });
+    this.outboundEnd = offset + data.length;
+  }
+
+  /** Twilio "clear": drop queued AI audio that has not been played yet. */
+  clearOutbound(): void {
+    const now = this.nowSamples();
+    if (this.outboundEnd <= now) return;
+
+    this.outbound = this.outbound
+      .filter((chunk) => chunk.offset < now)
+      .map((chunk) =>
+        chunk.offset + chunk.data.length > now ? { offset: chunk.offset, data: chunk.data.subarray(0, now - chunk.offset) } : chunk
+      );
+    this.outboundEnd = now;
+  }
+
+  get hasAudio(): boolean {
+    return this.inbound.length > 0 || this.outbound.length > 0;
+  }
+
+  /** Interleave both tracks into a stereo μ-law WAV. */
+  toWav(): Uint8Array {
+    const left = renderTrack(this.inbound);
+    const right = renderTrack(this.outbound);
+    const samples = Math.max(left.length, right.length);
+
+    const stereo = Buffer.alloc(samples * 2, MULAW_SILENCE);
+    for (let i = 0; i < samples; i++) {
+      if (i < left.length) stereo[i * 2] = left[i];
+      if (i < right.length) stereo[i * 2 + 1] = right[i];
+    }
+    return createMulawWav(stereo, 2);
+  }
+
+  private nowSamples(): number {
+    return Math.round(this.streamNowMs(Date.now()) * SAMPLES_PER_MS);
+  }
+
+  private streamNowMs(now: number): number {
+    if (this.lastInboundAt !== null) return this.lastInboundTimestamp + (now - this.lastInboundAt);
+    return this.timestampBaseMs + (this.streamStartedAt !== null ? now - this.streamStartedAt : 0);
+  }
+}
+
+function renderTrack(chunks: AudioChunk[]): Buffer {
+  const length = chunks.reduce((max, chunk) => Math.max(max, chunk.offset + chunk.data.length), 0);
+  const track = Buffer.alloc(length, MULAW_SILENCE);
+  for (const chunk of chunks) chunk.data.copy(track, chunk.offset);
+  return track;
+}
+
+/**
+ * Finished call recordings, one stereo WAV per call, pruned by age and count.
+ */
+export class RecordingStore {
+  private options: RecordingStoreOptions;
+  private dir: string;
+
+  constructor(options: RecordingStoreOptions, dir = RECORDINGS_DIR) {
+    this.options = options;
+    this.dir = dir;
+  }
+
+  save(callId: string, recorder: CallRecorder): RecordingInfo | undefined {
+    if (!recorder.hasAudio) return undefined;
+
+    mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const path = this.pathFor(callId);
+    const tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, recorder.toWav(), { mode: 0o600 });
+    renameSync(tmpPath, path);
+
+    this.prune();
+    return this.get(callId);
+  }
+
+  /** Recordings, newest first. */
+  list(): RecordingInfo[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((name) => name.endsWith(".wav") && !DEBUG_FILE_PATTERN.test(name))
+      .map((name) => this.get(name.slice(0, -".wav".length)))
+      .filter((info): info is RecordingInfo => info !== undefined)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  get(callId: string): RecordingInfo | undefined {
+    const path = this.pathFor(callId);
+    if (!existsSync(path)) return undefined;
+    const stat = statSync(path);
+    return {
+      callId,
+      path,
+      bytes: stat.size,
+      durationSeconds: Math.round(Math.max(0, stat.size - WAV_HEADER_BYTES) / STEREO_BYTES_PER_SECOND),
+      createdAt: stat.mtimeMs,
+    };
+  }
+
+  read(callId: string): Buffer | undefined {
+    const path = this.pathFor(callId);
+    return existsSync(path) ? readFileSync(path) : undefined;
+  }
+
+  /** Delete recordings past retentionDays, then the oldest beyond maxRecordings. */
+  prune(): number {
+    const cutoff = Date.now() - this.options.retentionDays * 24 * 60 * 60 * 1000;
+    const expired = this.list().filter((info, index) => info.createdAt < cutoff || index >= this.options.maxRecordings);
+    for (const info of expired) {
+      try {
+        unlinkSync(info.path);
+      } catch (err) {
+        console.error(
+          `[openclaw-voice-gpt-realtime] Failed to delete recording ${info.path}: ${
+            err instanceof Error ? err.message : String(err)
+          }`
+        );
+      }
+    }
+    return expired.length;
+  }
+
+  private pathFor(callId: string): string {
+    // callIds come from gateway params; never let one escape the directory
+    return join(this.dir, `${callId.replace(/[^a-zA-Z0-9_-]/g, "_")}.wav`);
+  }
+}
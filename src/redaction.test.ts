@@ -0,0 +1,144 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import type { CallRecord } from "./call-manager.ts";
+import { RedactionConfigSchema } from "./config.ts";
+import { Redactor, redactedLog, redactor } from "./redaction.ts";
+
+function createRedactor(config: Record<string, unknown> = {}): Redactor {
+  const redactor = new Redactor();
+  redactor.configure(RedactionConfigSchema.parse({ enabled: true, ...config }));
+  return redactor;
+}
+
+describe("Redactor.text", () => {
+  test("passes text through while disabled", () => {
+    const redactor = new Redactor();
+    redactor.configure(RedactionConfigSchema.parse({}));
+    expect(redactor.enabled).toBe(false);
+    expect(redactor.text("Call me at +14155551234")).toBe("Call me at +14155551234");
+  });
+
+  test.each([
+    ["4111 1111 1111 1111", "Visa with spaces"],
+    ["4111-1111-1111-1111", "Visa with dashes"],
+    ["5555555555554444", "Mastercard"],
+    ["378282246310005", "Amex"],
+  ])("redacts Luhn-valid card number %s (%s)", (card) => {
+    expect(createRedactor().text(`My card is ${card}, thanks`)).toBe("My card is [REDACTED:card], thanks");
+  });
+
+  test("leaves digit runs that fail the Luhn check alone", () => {
+    expect(createRedactor({ patterns: ["card"] }).text("Order 4111111111111112")).toBe("Order 4111111111111112");
+  });
+
+  test("redacts social security numbers", () => {
+    expect(createRedactor().text("SSN 123-45-6789 on file")).toBe("SSN [REDACTED:ssn] on file");
+  });
+
+  test("redacts email addresses", () => {
+    expect(createRedactor().text("Send it to jane.doe+test@example.co.uk please")).toBe(
+      "Send it to [REDACTED:email] please"
+    );
+  });
+
+  test.each(["+14155551234", "+44 20 7946 0000", "(415) 555-1234", "415.555.1234"])(
+    "redacts phone number %s",
+    (phone) => {
+      expect(createRedactor().text(`Reach me on ${phone}.`)).toBe("Reach me on [REDACTED:phone].");
+    }
+  );
+
+  test("does not touch digits inside identifiers and timestamps", () => {
+    const text = "call_1792428556308_ab12 CA0123456789abcdef0123456789abcdef at 2026-01-01T12:00:00.000Z";
+    expect(createRedactor().text(text)).toBe(text);
+  });
+
+  test("applies only the configured built-in patterns", () => {
+    const redactor = createRedactor({ patterns: ["email"] });
+    expect(redactor.text("jane@example.com, +14155551234")).toBe("[REDACTED:email], +14155551234");
+  });
+
+  test("runs custom patterns before the built-ins", () => {
+    const redactor = createRedactor({ custom: [{ name: "account", pattern: "ACCT-\\d+", flags: "i" }] });
+    expect(redactor.text("acct-4111111111111111 and 4111111111111111")).toBe(
+      "[REDACTED:account] and [REDACTED:card]"
+    );
+  });
+});
+
+describe("Redactor.value", () => {
+  test("redacts strings nested in objects and arrays", () => {
+    expect(
+      createRedactor().value({ email: "jane@example.com", phones: ["+14155551234"], count: 2, ok: true, none: null })
+    ).toEqual({ email: "[REDACTED:email]", phones: ["[REDACTED:phone]"], count: 2, ok: true, none: null });
+  });
+});
+
+describe("Redactor.record", () => {
+  const record: CallRecord = {
+    callId: "call_1792428556308_ab12",
+    callSid: "CA0123456789abcdef0123456789abcdef",
+    to: "+14155551234",
+    from: "+14155550000",
+    task: "Confirm the booking for jane@example.com",
+    direction: "outbound",
+    status: "completed",
+    startedAt: 1_800_000_000_000,
+    transcript: [
+      { role: "assistant", text: "Can I get a callback number?", ts: 1_800_000_001_000 },
+      { role: "user", text: "Sure, it's 415-555-1234", ts: 1_800_000_002_000 },
+    ],
+    toolCalls: [
+      { name: "report_outcome", args: { card: "4111 1111 1111 1111" }, result: "Saved 123-45-6789", ts: 1_800_000_003_000 },
+    ],
+    outcome: { success: true, summary: "Booked for +14155551234", details: { email: "jane@example.com" } },
+    error: "Callback to +14155551234 failed",
+    cancellation: { requestedBy: "operator", reason: "Wrong number 415-555-1234", fromStatus: "in-progress", at: 1 },
+  };
+
+  test("redacts transcript, tool calls, outcome and free-text fields", () => {
+    const redacted = createRedactor().record(record);
+    expect(redacted.task).toBe("Confirm the booking for [REDACTED:email]");
+    expect(redacted.transcript.map((entry) => entry.text)).toEqual([
+      "Can I get a callback number?",
+      "Sure, it's [REDACTED:phone]",
+    ]);
+    expect(redacted.toolCalls?.[0]?.args).toEqual({ card: "[REDACTED:card]" });
+    expect(redacted.toolCalls?.[0]?.result).toBe("Saved [REDACTED:ssn]");
+    expect(redacted.outcome?.summary).toBe("Booked for [REDACTED:phone]");
+    expect(redacted.outcome?.details).toEqual({ email: "[REDACTED:email]" });
+    expect(redacted.error).toBe("Callback to [REDACTED:phone] failed");
+    expect(redacted.cancellation?.reason).toBe("Wrong number [REDACTED:phone]");
+  });
+
+  test("keeps identifiers and numbers needed for history and retries", () => {
+    const redacted = createRedactor().record(record);
+    expect(redacted.callId).toBe(record.callId);
+    expect(redacted.callSid).toBe(record.callSid);
+    expect(redacted.to).toBe(record.to);
+    expect(redacted.from).toBe(record.from);
+  });
+
+  test("leaves the original record untouched", () => {
+    createRedactor().record(record);
+    expect(record.transcript[1]?.text).toBe("Sure, it's 415-555-1234");
+    expect(record.outcome?.details).toEqual({ email: "jane@example.com" });
+  });
+
+  test("returns the same record while disabled", () => {
+    expect(new Redactor().record(record)).toBe(record);
+  });
+});
+
+describe("redactedLog", () => {
+  test("runs messages through the shared redactor", () => {
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    try {
+      redactor.configure(RedactionConfigSchema.parse({ enabled: true }));
+      redactedLog.info("/voice/answer from=+14155551234 to=+442079460000");
+      expect(log).toHaveBeenCalledWith("/voice/answer from=[REDACTED:phone] to=[REDACTED:phone]");
+    } finally {
+      redactor.configure(RedactionConfigSchema.parse({}));
+      log.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * PII redaction for everything that leaves a live call: console and debug
+ * logs, debug transcript files, persisted call records, and results handed to
+ * agents.
+ *
+ * Configured once from the plugin config; while disabled every method is a
+ * pass-through. Call records keep their to/from numbers so history queries
+ * and retries still work; the PII the calls are about lives in the
+ * transcript, tool calls and outcome.
+ */
+
+import type { CallRecord } from "./call-manager.ts";
+import type { RedactionConfig } from "./config.ts";
+
+export const REDACTION_PATTERNS = ["card", "ssn", "email", "phone"] as const;
+
+export type RedactionPattern = (typeof REDACTION_PATTERNS)[number];
+
+// Digits inside identifiers (call_1792428556308_x, CA…, ISO dates) must not match
+const BUILTIN_PATTERNS: Record<RedactionPattern, RegExp> = {
+  card: /(?<![\w+])\d(?:[ -]?\d){12,18}(?![\w])/g,
+  ssn: /(?<![\w+])\d{3}[- ]\d{2}[- ]\d{4}(?![\w])/g,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  phone: /(?<![\w+])(?:\+\d[\d .()-]{6,18}\d|\(?\d{3}\)?[ .-]?\d{3}[ .-]\d{4})(?![\w])/g,
+};
+
+interface CompiledPattern {
+  name: string;
+  regex: RegExp;
+  /** Extra check on a match, e.g. the Luhn checksum for card numbers. */
+  accept?: (match: string) => boolean;
+}
+
+export class Redactor {
+  private patterns: CompiledPattern[] = [];
+
+  get enabled(): boolean {
+    return this.patterns.length > 0;
+  }
+
+  configure(config: RedactionConfig): void {
+    if (!config.enabled) {
+      this.patterns = [];
+      return;
+    }
+    // Custom patterns run first so they can claim text a built-in would also match
+    this.patterns = [
+      ...config.custom.map((c) => ({ name: c.name, regex: new RegExp(c.pattern, withGlobal(c.flags)) })),
+      ...REDACTION_PATTERNS.filter((name) => config.patterns.includes(name)).map((name) => ({
+        name,
+        regex: BUILTIN_PATTERNS[name],
+        accept: name === "card" ? passesLuhn : undefined,
+      })),
+    ];
+  }
+
+  text(value: string): string {
+    let result = value;
+    for (const { name, regex, accept } of this.patterns) {
+      result = result.replace(regex, (match) => (accept && !accept(match) ? match : `[REDACTED:${name}]`));
+    }
+    return result;
+  }
+
+  /** Redact every string inside a JSON-like value. */
+  value<T>(value: T): T {
+    if (!this.enabled) return value;
+    if (typeof value === "string") return this.text(value) as T;
+    if (Array.isArray(value)) return value.map((item) => this.value(item)) as T;
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.value(item)])) as T;
+    }
+    return value;
+  }
+
+  /** A redacted copy of a call record; the record itself is left untouched. */
+  record(record: CallRecord): CallRecord {
+    if (!this.enabled) return record;
+    return {
+      ...record,
+      task: this.text(record.task),
+      error: record.error !== undefined ? this.text(record.error) : undefined,
+      transcript: record.transcript.map((entry) => ({ ...entry, text: this.text(entry.text) })),
+      toolCalls: record.toolCalls?.map((call) => ({ ...call, args: this.value(call.args), result: this.text(call.result) })),
+      outcome: record.outcome && {
+        ...record.outcome,
+        summary: this.text(record.outcome.summary),
+        details: this.value(record.outcome.details),
+      },
+      transfer: record.transfer && {
+        ...record.transfer,
+        reason: record.transfer.reason !== undefined ? this.text(record.transfer.reason) : undefined,
+      },
+      cancellation: record.cancellation && {
+        ...record.cancellation,
+        reason: record.cancellation.reason !== undefined ? this.text(record.cancellation.reason) : undefined,
+      },
+    };
+  }
+}
+
+function withGlobal(flags: string): string {
+  return flags.includes("g") ? flags : `${flags}g`;
+}
+
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Shared redactor, configured from the plugin config on register. */
+export const redactor = new Redactor();
+
+/**
+ * Console output for modules that log call details (numbers, transcripts,
+ * tool arguments). Every message goes through the shared redactor.
+ */
+export const redactedLog = {
+  info: (message: string): void => console.log(redactor.text(message)),
+  warn: (message: string): void => console.warn(redactor.text(message)),
+  error: (message: string): void => console.error(redactor.text(message)),
+};
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import type { CallRecord } from "./call-manager.ts";
+import { RetryConfigSchema } from "./config.ts";
+import { getRetryDelayMs, getRetryReason, isVoicemailAnswer } from "./retry-policy.ts";
+
+const policy = RetryConfigSchema.parse({ maxAttempts: 3, backoffSeconds: 60, backoffMultiplier: 2 });
+
+function attempt(overrides: Partial<CallRecord> = {}): CallRecord {
+  return {
+    callId: "call-1",
+    to: "+14155551234",
+    from: "+14155550000",
+    task: "Check opening hours",
+    direction: "outbound",
+    status: "no-answer",
+    startedAt: 0,
+    transcript: [],
+    ...overrides,
+  };
+}
+
+describe("isVoicemailAnswer", () => {
+  test.each([
+    ["machine_start", true],
+    ["machine_end_beep", true],
+    [" Machine_End_Silence ", true],
+    ["human", false],
+    ["fax", false],
+    [undefined, false],
+  ])("%p -> %p", (amdResult, expected) => {
+    expect(isVoicemailAnswer(attempt({ amdResult }))).toBe(expected);
+  });
+});
+
+describe("getRetryReason", () => {
+  test.each(["no-answer", "busy"] as const)("retries %s by default", (status) => {
+    expect(getRetryReason(attempt({ status }), policy)).toBe(status);
+  });
+
+  test("retries failed only when configured", () => {
+    expect(getRetryReason(attempt({ status: "failed" }), policy)).toBeNull();
+    const withFailed = RetryConfigSchema.parse({ maxAttempts: 3, retryOn: ["failed"] });
+    expect(getRetryReason(attempt({ status: "failed" }), withFailed)).toBe("failed");
+  });
+
+  test.each(["completed", "cancelled"] as const)("does not retry %s calls", (status) => {
+    expect(getRetryReason(attempt({ status }), policy)).toBeNull();
+  });
+
+  test("stops once maxAttempts is reached", () => {
+    expect(getRetryReason(attempt({ attempt: 2 }), policy)).toBe("no-answer");
+    expect(getRetryReason(attempt({ attempt: 3 }), policy)).toBeNull();
+  });
+
+  test("never retries with the default policy", () => {
+    expect(getRetryReason(attempt(), RetryConfigSchema.parse({}))).toBeNull();
+  });
+
+  test("never retries inbound calls", () => {
+    expect(getRetryReason(attempt({ direction: "inbound" }), policy)).toBeNull();
+  });
+
+  test("retries voicemail only when it does not count as done", () => {
+    const voicemail = attempt({ status: "completed", amdResult: "machine_end_beep" });
+    expect(getRetryReason(voicemail, policy)).toBeNull();
+
+    const strict = RetryConfigSchema.parse({ maxAttempts: 3, voicemailCountsAsDone: false });
+    expect(getRetryReason(voicemail, strict)).toBe("voicemail");
+    expect(getRetryReason(attempt({ status: "completed", amdResult: "human" }), strict)).toBeNull();
+  });
+
+  test("does not retry voicemail that got an outcome, e.g. a message left", () => {
+    const strict = RetryConfigSchema.parse({ maxAttempts: 3, voicemailCountsAsDone: false });
+    const record = attempt({
+      status: "completed",
+      amdResult: "machine_end_beep",
+      outcome: { success: false, summary: "Reached voicemail and left a message", voicemailLeft: true },
+    });
+    expect(getRetryReason(record, strict)).toBeNull();
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  test("waits backoffSeconds before the first retry, then backs off exponentially", () => {
+    expect(getRetryDelayMs(2, policy)).toBe(60_000);
+    expect(getRetryDelayMs(3, policy)).toBe(120_000);
+    expect(getRetryDelayMs(4, policy)).toBe(240_000);
+  });
+
+  test("keeps a fixed delay with a multiplier of 1", () => {
+    const fixed = RetryConfigSchema.parse({ backoffSeconds: 30, backoffMultiplier: 1 });
+    expect(getRetryDelayMs(2, fixed)).toBe(30_000);
+    expect(getRetryDelayMs(5, fixed)).toBe(30_000);
+  });
+
+  test("rounds fractional delays to whole milliseconds", () => {
+    const fractional = RetryConfigSchema.parse({ backoffSeconds: 10, backoffMultiplier: 1.0001 });
+    expect(Number.isInteger(getRetryDelayMs(3, fractional))).toBe(true);
+  });
+});
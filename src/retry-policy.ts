@@ -0,0 +1,37 @@
+/**
+ * Automatic retry policy for outbound calls that were not answered.
+ *
+ * Every retry is a new Twilio call with its own callId, linked to the first
+ * attempt through CallRecord.originalCallId. Only the final attempt's result
+ * is delivered to the agent.
+ */
+
+import type { CallRecord } from "./call-manager.ts";
+import type { PluginConfig } from "./config.ts";
+
+type RetryPolicy = PluginConfig["calls"]["retry"];
+
+export function isVoicemailAnswer(record: CallRecord): boolean {
+  return (record.amdResult || "").trim().toLowerCase().startsWith("machine");
+}
+
+/**
+ * Decide whether a finished attempt should be retried. Returns the reason
+ * (the status that triggered the retry) or null if this attempt is final.
+ */
+export function getRetryReason(record: CallRecord, policy: RetryPolicy): string | null {
+  if (record.direction !== "outbound") return null;
+  if ((record.attempt ?? 1) >= policy.maxAttempts) return null;
+
+  if (record.status === "completed") {
+    return isVoicemailAnswer(record) && !policy.voicemailCountsAsDone && !record.outcome ? "voicemail" : null;
+  }
+
+  return (policy.retryOn as string[]).includes(record.status) ? record.status : null;
+}
+
+/** Delay before the given (1-based) next attempt, with exponential backoff. */
+export function getRetryDelayMs(nextAttempt: number, policy: RetryPolicy): number {
+  const exponent = Math.max(0, nextAttempt - 2);
+  return Math.round(policy.backoffSeconds * Math.pow(policy.backoffMultiplier, exponent) * 1000);
+}
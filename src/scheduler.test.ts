@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CallScheduler, type ScheduledCall, type ScheduledDialResult } from "./scheduler.ts";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "voice-rt-scheduler-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/** Run one scheduler tick: start() ticks immediately, then let the dial settle. */
+async function runTick(scheduler: CallScheduler): Promise<void> {
+  scheduler.start();
+  scheduler.stop();
+  await new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+function createScheduler(result: ScheduledDialResult | Error) {
+  const dialed: string[] = [];
+  const failed: ScheduledCall[] = [];
+  const scheduler = new CallScheduler(async (entry) => {
+    dialed.push(entry.callId);
+    if (result instanceof Error) throw result;
+    return result;
+  }, join(dir, "scheduled.json"));
+  scheduler.setOnFailed((entry) => failed.push(entry));
+  return { scheduler, dialed, failed };
+}
+
+const params = { to: "+15551234567", task: "Check opening hours", sessionKey: "agent:main" };
+
+describe("CallScheduler", () => {
+  test("dials due entries and marks them dialed", async () => {
+    const { scheduler, dialed, failed } = createScheduler({ success: true });
+    scheduler.schedule("call-1", Date.now() - 1, params);
+    scheduler.schedule("call-2", Date.now() + 60_000, params);
+
+    await runTick(scheduler);
+
+    expect(dialed).toEqual(["call-1"]);
+    expect(scheduler.get("call-1")?.status).toBe("dialed");
+    expect(scheduler.get("call-2")?.status).toBe("pending");
+    expect(failed).toEqual([]);
+  });
+
+  test("keeps retryable failures pending without reporting them", async () => {
+    const { scheduler, failed } = createScheduler({ success: false, error: "MAX_CONCURRENT_CALLS", retryable: true });
+    scheduler.schedule("call-1", Date.now() - 1, params);
+
+    await runTick(scheduler);
+
+    expect(scheduler.get("call-1")?.status).toBe("pending");
+    expect(failed).toEqual([]);
+  });
+
+  test("reports non-retryable failures of retry attempts with the dial error", async () => {
+    const { scheduler, failed } = createScheduler({ success: false, error: "RATE_LIMITED", retryable: false });
+    scheduler.schedule("call-2", Date.now() - 1, params, { originalCallId: "call-1", attempt: 2 });
+
+    await runTick(scheduler);
+
+    expect(scheduler.get("call-2")?.status).toBe("failed");
+    expect(failed).toHaveLength(1);
+    expect(failed[0]?.callId).toBe("call-2");
+    expect(failed[0]?.error).toBe("RATE_LIMITED");
+    expect(failed[0]?.retry).toEqual({ originalCallId: "call-1", attempt: 2 });
+  });
+
+  test("reports dial callbacks that throw", async () => {
+    const { scheduler, failed } = createScheduler(new Error("boom"));
+    scheduler.schedule("call-1", Date.now() - 1, params);
+
+    await runTick(scheduler);
+
+    expect(scheduler.get("call-1")?.status).toBe("failed");
+    expect(failed.map((e) => [e.callId, e.error])).toEqual([["call-1", "boom"]]);
+  });
+
+  test("persists entries across instances", () => {
+    const { scheduler } = createScheduler({ success: true });
+    scheduler.schedule("call-1", Date.now() + 60_000, params);
+
+    const reloaded = new CallScheduler(async () => ({ success: true }), join(dir, "scheduled.json"));
+    expect(reloaded.get("call-1")?.params.to).toBe(params.to);
+  });
+});
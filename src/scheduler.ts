@@ -0,0 +1,171 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { DATA_DIR } from "./call-store.ts";
+
+const SCHEDULED_FILE = join(DATA_DIR, "scheduled.json");
+const TICK_INTERVAL_MS = 5_000;
+const FINISHED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const MAX_SCHEDULE_AHEAD_DAYS = 30;
+
+export interface ScheduledCall {
+  /** The callId the call will use once dialed. */
+  callId: string;
+  scheduleAt: number;
+  createdAt: number;
+  updatedAt: number;
+  status: "pending" | "dialed" | "cancelled" | "failed";
+  /** Call request (to, task, prompt, overrides) replayed at dial time. */
+  params: Record<string, unknown> & { to: string; task: string };
+  /** Set when this entry is an automatic retry of an earlier attempt. */
+  retry?: { originalCallId: string; attempt: number };
+  error?: string;
+}
+
+export type ScheduledDialResult = { success: true } | { success: false; error?: string; retryable: boolean };
+
+type DialFn = (entry: ScheduledCall) => Promise<ScheduledDialResult>;
+type FailedFn = (entry: ScheduledCall) => void;
+
+/**
+ * Durable queue of calls that should be dialed at a later time.
+ *
+ * Entries are stored in scheduled.json and survive gateway restarts. The
+ * background service ticks the scheduler; due entries are handed to the dial
+ * callback, and retryable failures (e.g. the concurrency limit) stay pending
+ * until the next tick. Entries that fail for good are reported through the
+ * onFailed callback, since no call record exists to carry the result.
+ */
+export class CallScheduler {
+  private entries = new Map<string, ScheduledCall>();
+  private dial: DialFn;
+  private onFailed?: FailedFn;
+  private filePath: string;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  constructor(dial: DialFn, filePath = SCHEDULED_FILE) {
+    this.dial = dial;
+    this.filePath = filePath;
+    this.load();
+  }
+
+  setOnFailed(cb: FailedFn): void {
+    this.onFailed = cb;
+  }
+
+  schedule(
+    callId: string,
+    scheduleAt: number,
+    params: ScheduledCall["params"],
+    retry?: ScheduledCall["retry"]
+  ): ScheduledCall {
+    const now = Date.now();
+    const entry: ScheduledCall = {
+      callId,
+      scheduleAt,
+      createdAt: now,
+      updatedAt: now,
+      status: "pending",
+      params,
+      retry,
+    };
+    this.entries.set(callId, entry);
+    this.save();
+    return entry;
+  }
+
+  get(callId: string): ScheduledCall | undefined {
+    return this.entries.get(callId);
+  }
+
+  findPendingRetry(originalCallId: string): ScheduledCall | undefined {
+    return this.list().find((e) => e.retry?.originalCallId === originalCallId);
+  }
+
+  list(options: { includeFinished?: boolean } = {}): ScheduledCall[] {
+    return Array.from(this.entries.values())
+      .filter((e) => options.includeFinished || e.status === "pending")
+      .sort((a, b) => a.scheduleAt - b.scheduleAt);
+  }
+
+  /** Cancel a pending entry. Returns undefined if it does not exist. */
+  cancel(callId: string): ScheduledCall | undefined {
+    const entry = this.entries.get(callId);
+    if (!entry) return undefined;
+    if (entry.status === "pending") {
+      entry.status = "cancelled";
+      entry.updatedAt = Date.now();
+      this.save();
+    }
+    return entry;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const due = this.list().filter((e) => e.scheduleAt <= Date.now());
+      for (const entry of due) {
+        // May have been cancelled while an earlier dial was in flight
+        if (entry.status !== "pending") continue;
+
+        let result: ScheduledDialResult;
+        try {
+          result = await this.dial(entry);
+        } catch (err) {
+          result = { success: false, error: err instanceof Error ? err.message : String(err), retryable: false };
+        }
+
+        if (!result.success && result.retryable) continue;
+
+        entry.status = result.success ? "dialed" : "failed";
+        entry.error = result.success ? undefined : result.error;
+        entry.updatedAt = Date.now();
+        this.save();
+        if (!result.success) this.onFailed?.(entry);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, "utf8")) as ScheduledCall[];
+      for (const entry of parsed) {
+        if (entry?.callId) this.entries.set(entry.callId, entry);
+      }
+    } catch (err) {
+      console.error(
+        `[openclaw-voice-gpt-realtime] Failed to load scheduled calls from ${this.filePath}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  }
+
+  private save(): void {
+    const cutoff = Date.now() - FINISHED_RETENTION_MS;
+    for (const [callId, entry] of this.entries) {
+      if (entry.status !== "pending" && entry.updatedAt < cutoff) this.entries.delete(callId);
+    }
+
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(Array.from(this.entries.values()), null, 2), { mode: 0o600 });
+    renameSync(tmpPath, this.filePath);
+  }
+}
@@ -2,16 +2,20 @@ import { type Server } from "node:http";
 import { createServer } from "node:http";
 import { WebSocketServer, WebSocket } from "ws";
 import { validateRequest } from "twilio/lib/webhooks/webhooks.js";
-import { randomBytes } from "node:crypto";
-import type { PluginConfig } from "./config.ts";
-import type { CallManager } from "./call-manager.ts";
-import type { TwilioClient } from "./twilio-client.ts";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import type { CallSettings, PluginConfig } from "./config.ts";
+import { isTerminalStatus, type CallManager, type CallRecord } from "./call-manager.ts";
+import { escapeXml, type TwilioClient } from "./twilio-client.ts";
 import { RealtimeBridge } from "./realtime-bridge.ts";
 import { checkStatus } from "./status.ts";
+import { redactedLog } from "./redaction.ts";
 import type { CallContext } from "./prompts.ts";
+import type { AgentConsultBroker } from "./consult.ts";
+import type { RecordingStore } from "./recording.ts";
 
 const MAX_BODY_SIZE = 64 * 1024; // 64KB — Twilio payloads are typically <10KB
-const MACHINE_START_GRACE_SECONDS = 6;
+const MONITOR_EVENTS_PATH = /^\/monitor\/calls\/([^/]+)\/events$/;
+const MONITOR_KEEPALIVE_MS = 15_000;
 
 export class VoiceServer {
   private config: PluginConfig;
@@ -22,10 +26,14 @@ export class VoiceServer {
   private bridges = new Map<string, RealtimeBridge>();
   private listening = false;
   private agentName = "";
+  private consult?: AgentConsultBroker;
+  private recordings?: RecordingStore;
   // Pending call contexts awaiting Twilio stream connection
   private pendingCallContexts = new Map<string, CallContext>();
   // Per-call secret tokens for WebSocket authentication
   private callTokens = new Map<string, string>();
+  // Open live-monitor streams, closed on shutdown so the HTTP server can stop
+  private monitorStreams = new Set<() => void>();
 
   constructor(config: PluginConfig, callManager: CallManager, twilioClient: TwilioClient) {
     this.config = config;
@@ -37,6 +45,14 @@ export class VoiceServer {
     this.agentName = name;
   }
 
+  setConsultBroker(consult: AgentConsultBroker): void {
+    this.consult = consult;
+  }
+
+  setRecordingStore(recordings: RecordingStore): void {
+    this.recordings = recordings;
+  }
+
   async start(): Promise<void> {
     return new Promise((resolve) => {
       this.httpServer = createServer((req, res) => {
@@ -69,7 +85,7 @@ export class VoiceServer {
 
       this.httpServer.listen(this.config.server.port, this.config.server.bind, () => {
         this.listening = true;
-        console.log(
+        redactedLog.info(
           `[openclaw-voice-gpt-realtime] Server listening on ${this.config.server.bind}:${this.config.server.port}`
         );
         resolve();
@@ -86,6 +102,8 @@ export class VoiceServer {
     }
     this.bridges.clear();
 
+    for (const closeStream of [...this.monitorStreams]) closeStream();
+
     // Close WebSocket server
     this.wss?.close();
 
@@ -114,6 +132,44 @@ export class VoiceServer {
     return this.callTokens.get(callId);
   }
 
+  /**
+   * Inject an operator message into a live call's realtime session. Returns
+   * undefined if the call has no live realtime session.
+   */
+  injectMessage(
+    callId: string,
+    opts: { mode: "say" | "instruct"; text: string; respond: boolean }
+  ): { success: boolean; message: string } | undefined {
+    return this.bridges.get(callId)?.injectMessage(opts);
+  }
+
+  /**
+   * Operator-initiated handoff of a live call to a person. Returns undefined
+   * if the call has no live realtime session.
+   */
+  async transferCall(
+    callId: string,
+    opts: { target?: string; reason?: string }
+  ): Promise<{ success: boolean; message: string } | undefined> {
+    const bridge = this.bridges.get(callId);
+    if (!bridge) return undefined;
+    return bridge.transfer({ ...opts, requestedBy: "operator" });
+  }
+
+  /**
+   * Close a call's realtime bridge (if any) and forget its stream context,
+   * e.g. after it was hung up.
+   */
+  closeCall(callId: string): void {
+    const bridge = this.bridges.get(callId);
+    if (bridge) {
+      bridge.close();
+      this.bridges.delete(callId);
+    }
+    this.pendingCallContexts.delete(callId);
+    this.callTokens.delete(callId);
+  }
+
   private handleHttp(req: import("node:http").IncomingMessage, res: import("node:http").ServerResponse): void {
     const url = new URL(req.url || "/", `http://${req.headers.host}`);
 
@@ -165,6 +221,10 @@ export class VoiceServer {
     }
 
     if (req.method === "GET") {
+      if (url.pathname.startsWith("/monitor/")) {
+        this.handleMonitor(req, res, url);
+        return;
+      }
       this.routeGet(url.pathname, res);
       return;
     }
@@ -213,6 +273,105 @@ export class VoiceServer {
     }
   }
 
+  /**
+   * Server-sent event stream of one call's live events for operators.
+   * Starts with a snapshot of the call so far and ends when the call does.
+   */
+  private handleMonitor(
+    req: import("node:http").IncomingMessage,
+    res: import("node:http").ServerResponse,
+    url: URL
+  ): void {
+    const match = url.pathname.match(MONITOR_EVENTS_PATH);
+    if (!this.config.monitor.enabled || !match) {
+      res.writeHead(404);
+      res.end("Not found");
+      return;
+    }
+
+    if (!this.isMonitorAuthorized(req, url)) {
+      res.writeHead(401, { "WWW-Authenticate": "Bearer" });
+      res.end("Unauthorized");
+      return;
+    }
+
+    const callId = decodeURIComponent(match[1]);
+    const record = this.callManager.findCall({ callId });
+    if (!record) {
+      res.writeHead(404);
+      res.end("Unknown call");
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send("snapshot", {
+      callId: record.callId,
+      direction: record.direction,
+      to: record.to,
+      from: record.from,
+      task: record.task,
+      status: record.status,
+      startedAt: record.startedAt,
+      answeredAt: record.answeredAt,
+      transcript: record.transcript,
+      toolCalls: record.toolCalls ?? [],
+    });
+
+    if (isTerminalStatus(record.status)) {
+      send("end", { callId, status: record.status });
+      res.end();
+      return;
+    }
+
+    let closed = false;
+    const closeStream = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(keepAlive);
+      unsubscribe();
+      this.monitorStreams.delete(closeStream);
+      res.end();
+    };
+
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), MONITOR_KEEPALIVE_MS);
+    keepAlive.unref?.();
+
+    const unsubscribe = this.callManager.events.subscribe(callId, (event) => {
+      send(event.type, event);
+      if (event.type === "status" && isTerminalStatus(event.status)) {
+        send("end", { callId, status: event.status });
+        closeStream();
+      }
+    });
+
+    this.monitorStreams.add(closeStream);
+    req.on("close", closeStream);
+    redactedLog.info(`[openclaw-voice-gpt-realtime] Monitor attached to call ${callId}`);
+  }
+
+  private isMonitorAuthorized(req: import("node:http").IncomingMessage, url: URL): boolean {
+    const expected = this.config.monitor.token;
+    if (!expected) return false;
+
+    // EventSource in browsers cannot set headers, so also accept ?token=
+    const header = req.headers.authorization || "";
+    const provided = header.startsWith("Bearer ") ? header.slice(7).trim() : url.searchParams.get("token") || "";
+    if (!provided) return false;
+
+    // Compare digests so the comparison is constant-time regardless of length
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(provided), digest(expected));
+  }
+
   private handleVoiceAnswer(params: URLSearchParams, res: import("node:http").ServerResponse): void {
     const direction = params.get("Direction");
     const callSid = params.get("CallSid");
@@ -223,7 +382,7 @@ export class VoiceServer {
     // Check if this is an inbound call (no callId in query = not initiated by us)
     const queryCallId = params.get("callId");
 
-    console.log(
+    redactedLog.info(
       `[openclaw-voice-gpt-realtime] /voice/answer direction=${direction || "unknown"} callSid=${
         callSid || "unknown"
       } queryCallId=${queryCallId || "none"} from=${from} to=${to} answeredBy=${answeredBy || "unknown"}`
@@ -262,8 +421,7 @@ export class VoiceServer {
         inboundSystemPrompt: this.config.inbound.systemPrompt,
       });
 
-      const token = this.callTokens.get(callId)!;
-      const wsUrl = `${this.config.publicUrl.replace(/^http/, "ws")}/voice/realtime-stream/${encodeURIComponent(callId)}/${token}`;
+      const wsUrl = this.streamUrl(callId, this.callTokens.get(callId)!);
 
       const twiml = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
@@ -283,7 +441,7 @@ export class VoiceServer {
     const callId = this.resolveCallId(params);
 
     if (callId === "unknown") {
-      console.error(
+      redactedLog.error(
         `[openclaw-voice-gpt-realtime] Unable to resolve outbound callId for callSid=${callSid || "unknown"}`
       );
       res.writeHead(200, { "Content-Type": "application/xml" });
@@ -300,8 +458,32 @@ export class VoiceServer {
     }
 
     const machineStartDetected = this.isMachineStart(answeredBy);
-    if (this.isHardMachineAnswer(answeredBy)) {
-      console.log(
+    const voicemail = this.voicemailDrop(callId, answeredBy);
+    if (voicemail?.policy === "message" && voicemail.message) {
+      redactedLog.info(
+        `[openclaw-voice-gpt-realtime] Voicemail beep at /voice/answer for callId=${callId} callSid=${
+          callSid || "unknown"
+        } answeredBy=${answeredBy}. Playing voicemail message.`
+      );
+      if (callSid) this.callManager.updateStatus(callId, "in-progress");
+      this.recordVoicemailMessage(callId, voicemail.message);
+      res.writeHead(200, { "Content-Type": "application/xml" });
+      res.end(
+        `<?xml version="1.0" encoding="UTF-8"?><Response><Say>${escapeXml(voicemail.message)}</Say><Hangup/></Response>`
+      );
+      return;
+    }
+
+    if (voicemail?.policy === "ai") {
+      redactedLog.info(
+        `[openclaw-voice-gpt-realtime] Voicemail beep at /voice/answer for callId=${callId} callSid=${
+          callSid || "unknown"
+        } answeredBy=${answeredBy}. Bridging so the voice model leaves a message.`
+      );
+      const context = this.pendingCallContexts.get(callId);
+      if (context) this.pendingCallContexts.set(callId, { ...context, voicemail: true });
+    } else if (this.isHardMachineAnswer(answeredBy)) {
+      redactedLog.info(
         `[openclaw-voice-gpt-realtime] Machine/fax detected at /voice/answer for callId=${callId} callSid=${
           callSid || "unknown"
         } answeredBy=${answeredBy}. Hanging up before stream bridge.`
@@ -312,10 +494,10 @@ export class VoiceServer {
     }
 
     if (machineStartDetected) {
-      console.log(
+      redactedLog.info(
         `[openclaw-voice-gpt-realtime] machine_start at /voice/answer for callId=${callId} callSid=${
           callSid || "unknown"
-        }; applying ${MACHINE_START_GRACE_SECONDS}s grace before stream bridge.`
+        }; applying ${this.config.calls.machineStartGraceSeconds}s grace before stream bridge.`
       );
     }
 
@@ -326,17 +508,18 @@ export class VoiceServer {
     // Return TwiML to connect Twilio to our WebSocket (include per-call token)
     const token = this.callTokens.get(callId);
     if (!token) {
-      console.error(`[openclaw-voice-gpt-realtime] Missing stream token for call ${callId}`);
+      redactedLog.error(`[openclaw-voice-gpt-realtime] Missing stream token for call ${callId}`);
       res.writeHead(200, { "Content-Type": "application/xml" });
       res.end('<?xml version="1.0" encoding="UTF-8"?><Response><Hangup/></Response>');
       return;
     }
 
-    const wsUrl = `${this.config.publicUrl.replace(/^http/, "ws")}/voice/realtime-stream/${encodeURIComponent(callId)}/${token}`;
+    const wsUrl = this.streamUrl(callId, token);
 
-    const preConnectGrace = machineStartDetected
-      ? `  <Pause length="${MACHINE_START_GRACE_SECONDS}" />\n`
-      : "";
+    const preConnectGrace =
+      machineStartDetected && this.config.calls.machineStartGraceSeconds > 0
+        ? `  <Pause length="${this.config.calls.machineStartGraceSeconds}" />\n`
+        : "";
 
     const twiml = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
@@ -385,7 +568,7 @@ ${preConnectGrace}  <Connect>
     const answeredBy = params.get("AnsweredBy");
     const callDuration = params.get("CallDuration");
 
-    console.log(
+    redactedLog.info(
       `[openclaw-voice-gpt-realtime] /voice/status callId=${callId} callSid=${callSid || "unknown"} status=${
         callStatus || "unknown"
       } answeredBy=${answeredBy || "unknown"} duration=${callDuration || "unknown"}`
@@ -396,14 +579,16 @@ ${preConnectGrace}  <Connect>
     }
 
     if (callId !== "unknown" && callStatus) {
-      const statusMap: Record<string, "ringing" | "in-progress" | "completed" | "failed" | "no-answer" | "busy"> = {
+      // Twilio's "canceled" is ours only if an operator or agent asked for it
+      const cancelled = Boolean(this.callManager.getByCallId(callId)?.cancellation);
+      const statusMap: Record<string, CallRecord["status"]> = {
         ringing: "ringing",
         "in-progress": "in-progress",
         completed: "completed",
         failed: "failed",
         "no-answer": "no-answer",
         busy: "busy",
-        canceled: "failed",
+        canceled: cancelled ? "cancelled" : "failed",
       };
 
       const mappedStatus = statusMap[callStatus];
@@ -411,28 +596,21 @@ ${preConnectGrace}  <Connect>
         if (callSid) this.callManager.setCallSid(callId, callSid);
         this.callManager.updateStatus(callId, mappedStatus);
 
-        if (callSid && mappedStatus === "in-progress" && this.isHardMachineAnswer(answeredBy)) {
-          console.log(
+        if (
+          callSid &&
+          mappedStatus === "in-progress" &&
+          this.isHardMachineAnswer(answeredBy) &&
+          !this.voicemailDrop(callId, answeredBy)
+        ) {
+          redactedLog.info(
             `[openclaw-voice-gpt-realtime] Machine/fax detected at /voice/status for callId=${callId} callSid=${callSid}; forcing hangup.`
           );
-          void this.twilioClient.hangup(callSid).catch((err) => {
-            console.error(
-              `[openclaw-voice-gpt-realtime] Failed to hang up machine-answered callSid=${callSid}: ${
-                err instanceof Error ? err.message : String(err)
-              }`
-            );
-          });
+          this.hangUpMachineAnswer(callSid);
         }
 
         // Clean up bridge on terminal states
-        if (["completed", "failed", "no-answer", "busy"].includes(mappedStatus)) {
-          const bridge = this.bridges.get(callId);
-          if (bridge) {
-            bridge.close();
-            this.bridges.delete(callId);
-          }
-          this.pendingCallContexts.delete(callId);
-          this.callTokens.delete(callId);
+        if (isTerminalStatus(mappedStatus)) {
+          this.closeCall(callId);
         }
       }
     }
@@ -441,12 +619,19 @@ ${preConnectGrace}  <Connect>
     res.end("ok");
   }
 
+  /**
+   * Async AMD verdict, posted while the call is already bridged. A voicemail
+   * beep switches the bridge to leaving a message (or plays the fixed one);
+   * definite machine and fax answers are hung up on. machine_start (what
+   * Twilio reports for a greeting when it is not waiting for the beep) is
+   * left bridged, as in sync mode, since a person can trigger it too.
+   */
   private handleAmd(params: URLSearchParams, res: import("node:http").ServerResponse): void {
     const callId = this.resolveCallId(params);
     const callSid = params.get("CallSid");
     const answeredBy = params.get("AnsweredBy");
 
-    console.log(
+    redactedLog.info(
       `[openclaw-voice-gpt-realtime] /voice/amd callId=${callId} callSid=${
         callSid || "unknown"
       } answeredBy=${answeredBy || "unknown"}`
@@ -454,17 +639,37 @@ ${preConnectGrace}  <Connect>
 
     if (callId !== "unknown" && answeredBy) {
       this.callManager.setAmdResult(callId, answeredBy);
-      if (callSid && this.isHardMachineAnswer(answeredBy)) {
-        console.log(
+      const voicemail = this.voicemailDrop(callId, answeredBy);
+      if (voicemail?.policy === "ai") {
+        redactedLog.info(`[openclaw-voice-gpt-realtime] Voicemail beep at /voice/amd for callId=${callId}; leaving a message.`);
+        const context = this.pendingCallContexts.get(callId);
+        if (context) this.pendingCallContexts.set(callId, { ...context, voicemail: true });
+        this.bridges.get(callId)?.startVoicemail();
+      } else if (callSid && voicemail?.policy === "message" && voicemail.message) {
+        redactedLog.info(`[openclaw-voice-gpt-realtime] Voicemail beep at /voice/amd for callId=${callId}; playing voicemail message.`);
+        // Recorded up front: redirecting the call ends the stream, which can finish the call before Twilio replies
+        this.recordVoicemailMessage(callId, voicemail.message);
+        void this.twilioClient.playMessage(callSid, voicemail.message).catch((err) => {
+          const errorMsg = err instanceof Error ? err.message : String(err);
+          redactedLog.error(`[openclaw-voice-gpt-realtime] Failed to play voicemail message for callSid=${callSid}: ${errorMsg}`);
+          this.callManager.setOutcome(callId, {
+            success: false,
+            summary: `Reached voicemail but the message could not be played: ${errorMsg}`,
+          });
+        });
+      } else if (callSid && this.isHardMachineAnswer(answeredBy)) {
+        redactedLog.info(
           `[openclaw-voice-gpt-realtime] Machine/fax detected at /voice/amd for callId=${callId} callSid=${callSid}; forcing hangup.`
         );
-        void this.twilioClient.hangup(callSid).catch((err) => {
-          console.error(
-            `[openclaw-voice-gpt-realtime] Failed to hang up machine-answered callSid=${callSid}: ${
-              err instanceof Error ? err.message : String(err)
-            }`
-          );
-        });
+        this.hangUpMachineAnswer(callSid);
+      } else if (this.isMachineStart(answeredBy)) {
+        // Same as sync mode: machine_start is often a person with a long
+        // greeting, so the call stays bridged
+        redactedLog.info(
+          `[openclaw-voice-gpt-realtime] machine_start at /voice/amd for callId=${callId} callSid=${
+            callSid || "unknown"
+          }; keeping the call bridged.`
+        );
       }
     }
 
@@ -494,27 +699,45 @@ ${preConnectGrace}  <Connect>
     return null;
   }
 
+  private streamUrl(callId: string, token: string): string {
+    return `${this.config.publicUrl.replace(/^http/, "ws")}/voice/realtime-stream/${encodeURIComponent(callId)}/${token}`;
+  }
+
   private handleWebSocket(ws: WebSocket, url: URL, callIdFromUpgrade?: string): void {
     const callId = callIdFromUpgrade || url.searchParams.get("callId") || "unknown";
-    const callContext = this.pendingCallContexts.get(callId) || {
-      task: "General phone call — ask what they need or answer their questions.",
-      direction: "outbound" as const,
-    };
 
-    console.log(`[openclaw-voice-gpt-realtime] WebSocket connected for call ${callId}`);
-
-    const bridge = new RealtimeBridge(
-      ws,
-      this.config,
-      this.callManager,
-      this.twilioClient,
-      callId,
-      callContext
-    );
+    // Twilio restarts the stream after playing digits; the live bridge picks it up
+    const restarting = this.bridges.get(callId);
+    if (restarting?.awaitingStream) {
+      redactedLog.info(`[openclaw-voice-gpt-realtime] Media stream reconnected for call ${callId}`);
+      restarting.attachStream(ws);
+    } else {
+      const callContext = this.pendingCallContexts.get(callId) || {
+        task: "General phone call — ask what they need or answer their questions.",
+        direction: "outbound" as const,
+      };
+      const token = this.callTokens.get(callId);
+
+      redactedLog.info(`[openclaw-voice-gpt-realtime] WebSocket connected for call ${callId}`);
+
+      const bridge = new RealtimeBridge(
+        ws,
+        this.config,
+        this.callManager,
+        this.twilioClient,
+        callId,
+        { ...callContext, streamUrl: token ? this.streamUrl(callId, token) : undefined },
+        this.consult,
+        this.recordings
+      );
 
-    this.bridges.set(callId, bridge);
+      this.bridges.set(callId, bridge);
+    }
 
     ws.on("close", () => {
+      // A stream that is being restarted or was replaced doesn't end the call
+      const bridge = this.bridges.get(callId);
+      if (bridge && !bridge.ownsStream(ws)) return;
       this.bridges.delete(callId);
       this.pendingCallContexts.delete(callId);
       this.callTokens.delete(callId);
@@ -525,10 +748,42 @@ ${preConnectGrace}  <Connect>
     return (answeredBy || "").trim().toLowerCase();
   }
 
+  private hangUpMachineAnswer(callSid: string): void {
+    void this.twilioClient.hangup(callSid).catch((err) => {
+      redactedLog.error(
+        `[openclaw-voice-gpt-realtime] Failed to hang up machine-answered callSid=${callSid}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    });
+  }
+
   private isMachineStart(answeredBy: string | null): boolean {
     return this.normalizeAnsweredBy(answeredBy) === "machine_start";
   }
 
+  private recordVoicemailMessage(callId: string, message: string): void {
+    this.callManager.addTranscript(callId, "system", `[Voicemail message played: ${message}]`);
+    this.callManager.setOutcome(callId, {
+      success: false,
+      summary: "Reached voicemail and left the configured message",
+      voicemailLeft: true,
+    });
+  }
+
+  /**
+   * The call's voicemail settings when AMD heard the voicemail beep and the
+   * call leaves a message there; undefined means hang up. Only
+   * machine_end_beep counts: after machine_end_silence or machine_end_other
+   * there is no sign that the machine is recording, so a message could be
+   * spoken into nothing.
+   */
+  private voicemailDrop(callId: string, answeredBy: string | null): CallSettings["voicemail"] | undefined {
+    if (this.normalizeAnsweredBy(answeredBy) !== "machine_end_beep") return undefined;
+    const voicemail = this.pendingCallContexts.get(callId)?.settings?.voicemail;
+    return voicemail && voicemail.policy !== "hangup" ? voicemail : undefined;
+  }
+
   private isHardMachineAnswer(answeredBy: string | null): boolean {
     const normalized = this.normalizeAnsweredBy(answeredBy);
     return normalized === "fax" || normalized === "machine" || normalized.startsWith("machine_end");
@@ -7,9 +7,29 @@ export interface InitiateCallOptions {
   publicUrl: string;
   timeoutSeconds: number;
   enableAmd: boolean;
+  /** Wait for the end of a voicemail greeting (machine_end_beep etc.) instead of the first words. */
+  detectMessageEnd: boolean;
+  /** Connect the stream right away and post the AMD verdict to /voice/amd instead. */
+  asyncAmd: boolean;
+  amdTimeoutSeconds?: number;
   maxDurationSeconds: number;
 }
 
+export interface TransferOptions {
+  /** E.164 number or SIP URI. */
+  target: string;
+  announcement?: string;
+  timeoutSeconds: number;
+}
+
+export interface SendDigitsOptions {
+  /** 0-9, * and #. */
+  digits: string;
+  /** Media stream URL to reconnect to, with its per-call token. */
+  streamUrl: string;
+  callId: string;
+}
+
 export interface TwilioCallResult {
   callSid: string;
   status: string;
@@ -67,9 +87,18 @@ export class TwilioClient {
     };
 
     if (opts.enableAmd) {
-      // Use synchronous AMD so /voice/answer receives AnsweredBy before we bridge audio.
-      callParams.machineDetection = "Enable";
-      callParams.machineDetectionTimeout = 8;
+      // Sync AMD: /voice/answer receives AnsweredBy before we bridge audio.
+      // Async AMD: /voice/answer bridges at once and the verdict is posted to
+      // /voice/amd mid-call. Either way, DetectMessageEnd holds the verdict until
+      // the greeting ends, so a voicemail drop starts after the beep; greetings
+      // can run long, hence the longer timeout.
+      callParams.machineDetection = opts.detectMessageEnd ? "DetectMessageEnd" : "Enable";
+      callParams.machineDetectionTimeout = opts.amdTimeoutSeconds ?? (opts.detectMessageEnd ? 30 : 8);
+      if (opts.asyncAmd) {
+        callParams.asyncAmd = "true";
+        callParams.asyncAmdStatusCallback = `${opts.publicUrl}/voice/amd?callId=${encodeURIComponent(opts.callId)}`;
+        callParams.asyncAmdStatusCallbackMethod = "POST";
+      }
     }
 
     const call = await this.client.calls.create(callParams as unknown as Parameters<typeof this.client.calls.create>[0]);
@@ -84,6 +113,46 @@ export class TwilioClient {
     await this.client.calls(callSid).update({ status: "completed" });
   }
 
+  /** Replace the live call's TwiML: read out a message, then hang up. */
+  async playMessage(callSid: string, message: string): Promise<void> {
+    const twiml = `<?xml version="1.0" encoding="UTF-8"?><Response><Say>${escapeXml(message)}</Say><Hangup/></Response>`;
+    await this.client.calls(callSid).update({ twiml });
+  }
+
+  /**
+   * Press keys on a live call with <Play digits>, then connect the media
+   * stream again. Twilio ends the current stream to play the digits.
+   */
+  async sendDigits(callSid: string, opts: SendDigitsOptions): Promise<void> {
+    const twiml =
+      `<?xml version="1.0" encoding="UTF-8"?><Response><Play digits="${escapeXml(opts.digits)}"/>` +
+      `<Connect><Stream url="${escapeXml(opts.streamUrl)}"><Parameter name="callId" value="${escapeXml(opts.callId)}"/></Stream></Connect>` +
+      `</Response>`;
+    await this.client.calls(callSid).update({ twiml });
+  }
+
+  /** Cancel a call that is still queued or ringing at Twilio. */
+  async cancel(callSid: string): Promise<void> {
+    await this.client.calls(callSid).update({ status: "canceled" });
+  }
+
+  /**
+   * Replace the live call's TwiML with a <Dial> to the target. Twilio ends
+   * the media stream, so the realtime bridge closes while the call stays up.
+   */
+  async transfer(callSid: string, opts: TransferOptions): Promise<void> {
+    const say = opts.announcement ? `<Say>${escapeXml(opts.announcement)}</Say>` : "";
+    const destination = /^sips?:/i.test(opts.target)
+      ? `<Sip>${escapeXml(opts.target)}</Sip>`
+      : `<Number>${escapeXml(opts.target)}</Number>`;
+    const twiml =
+      `<?xml version="1.0" encoding="UTF-8"?><Response>${say}` +
+      `<Dial callerId="${escapeXml(this.config.fromNumber)}" timeout="${opts.timeoutSeconds}">${destination}</Dial>` +
+      `</Response>`;
+
+    await this.client.calls(callSid).update({ twiml });
+  }
+
   async getCallDetails(callSid: string): Promise<TwilioCallDetails> {
     const call = await this.client.calls(callSid).fetch();
     const raw = call as unknown as Record<string, unknown>;
@@ -189,3 +258,12 @@ export class TwilioClient {
     return sid.slice(0, 4) + "..." + sid.slice(-4);
   }
 }
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { VoiceToolError, VoiceToolRegistry, type VoiceToolDefinition, type VoiceToolContext } from "./voice-tools.ts";
+
+const call: Omit<VoiceToolContext, "signal"> = {
+  callId: "call-1",
+  direction: "outbound",
+  to: "+14155551234",
+  from: "+14155550000",
+  task: "Check opening hours",
+};
+
+function tool(name: string, handler: VoiceToolDefinition["handler"], timeoutMs?: number): VoiceToolDefinition {
+  return { name, description: `The ${name} tool`, parameters: { type: "object", properties: {} }, handler, timeoutMs };
+}
+
+describe("VoiceToolRegistry.register", () => {
+  test.each(["send_dtmf", "collect_digits", "end_call", "report_outcome", "ask_agent", "transfer_call"])(
+    "rejects the built-in name %s",
+    (name) => {
+      expect(() => new VoiceToolRegistry().register(tool(name, () => "ok"))).toThrow("reserved for a built-in tool");
+    }
+  );
+
+  test("rejects invalid and duplicate names", () => {
+    const registry = new VoiceToolRegistry();
+    expect(() => registry.register(tool("check hours", () => "ok"))).toThrow('Invalid voice tool name "check hours"');
+    registry.register(tool("check_hours", () => "ok"));
+    expect(() => registry.register(tool("check_hours", () => "ok"))).toThrow("already registered");
+  });
+
+  test("the returned function unregisters the tool", () => {
+    const registry = new VoiceToolRegistry();
+    const unregister = registry.register(tool("check_hours", () => "ok"));
+    unregister();
+    expect(registry.has("check_hours")).toBe(false);
+  });
+});
+
+describe("VoiceToolRegistry.list", () => {
+  test("limits a call to its allowlist, or offers every tool without one", () => {
+    const registry = new VoiceToolRegistry();
+    registry.register(tool("check_hours", () => "ok"));
+    registry.register(tool("lookup_order", () => "ok"));
+
+    expect(registry.list().map((t) => t.name)).toEqual(["check_hours", "lookup_order"]);
+    expect(registry.list(["lookup_order", "not_registered"]).map((t) => t.name)).toEqual(["lookup_order"]);
+    expect(registry.list([])).toEqual([]);
+  });
+});
+
+describe("VoiceToolRegistry.invoke", () => {
+  let registry: VoiceToolRegistry;
+  let errorLog: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    registry = new VoiceToolRegistry();
+    errorLog = spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorLog.mockRestore();
+    jest.useRealTimers();
+  });
+
+  test("serializes results for the model and passes the call context", async () => {
+    let seen: VoiceToolContext | undefined;
+    registry.register(
+      tool("lookup_order", (args, ctx) => {
+        seen = ctx;
+        return { order: args.id, status: "shipped" };
+      })
+    );
+    registry.register(tool("check_hours", () => undefined));
+
+    expect(await registry.invoke("lookup_order", { id: 7 }, call, 1_000)).toBe('{"order":7,"status":"shipped"}');
+    expect(seen).toMatchObject(call);
+    expect(await registry.invoke("check_hours", {}, call, 1_000)).toBe("Done.");
+  });
+
+  test("truncates long results", async () => {
+    registry.register(tool("dump", () => "x".repeat(5_000)));
+    const result = await registry.invoke("dump", {}, call, 1_000);
+    expect(result).toHaveLength(4_000 + "… [truncated]".length);
+    expect(result.endsWith("… [truncated]")).toBe(true);
+  });
+
+  test("reports unknown tools to the model", async () => {
+    expect(await registry.invoke("missing", {}, call, 1_000)).toBe("Unknown function: missing");
+  });
+
+  test("hands a VoiceToolError message to the model as is", async () => {
+    registry.register(
+      tool("lookup_order", () => {
+        throw new VoiceToolError("No order with that number. Ask them to spell it.");
+      })
+    );
+    expect(await registry.invoke("lookup_order", {}, call, 1_000)).toBe(
+      "No order with that number. Ask them to spell it."
+    );
+    expect(errorLog).not.toHaveBeenCalled();
+  });
+
+  test("maps other errors to a generic failure and logs them", async () => {
+    registry.register(
+      tool("lookup_order", async () => {
+        throw new Error("ECONNREFUSED 10.0.0.4:5432");
+      })
+    );
+    expect(await registry.invoke("lookup_order", {}, call, 1_000)).toBe("lookup_order failed. Carry on without it.");
+    expect(errorLog).toHaveBeenCalledTimes(1);
+    expect(String(errorLog.mock.calls[0]?.[0])).toContain("Voice tool lookup_order failed on call call-1");
+  });
+
+  test("catches handlers that throw synchronously", async () => {
+    registry.register(
+      tool("lookup_order", () => {
+        throw new TypeError("args.id is undefined");
+      })
+    );
+    expect(await registry.invoke("lookup_order", {}, call, 1_000)).toBe("lookup_order failed. Carry on without it.");
+  });
+
+  test("times out slow handlers, aborts them and leaves nothing unhandled", async () => {
+    jest.useFakeTimers();
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onUnhandled);
+
+    let signal: AbortSignal | undefined;
+    let rejectLate: (err: Error) => void = () => {};
+    registry.register(
+      tool(
+        "check_calendar",
+        (_args, ctx) => {
+          signal = ctx.signal;
+          return new Promise((_, reject) => {
+            rejectLate = reject;
+          });
+        },
+        500
+      )
+    );
+
+    try {
+      const pending = registry.invoke("check_calendar", {}, call, 10_000);
+      await Promise.resolve();
+      jest.advanceTimersByTime(500);
+
+      expect(await pending).toBe("check_calendar timed out. Carry on without it.");
+      expect(signal?.aborted).toBe(true);
+
+      // The handler giving up after the timeout must not surface anywhere
+      rejectLate(new Error("aborted"));
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(unhandled).toEqual([]);
+      expect(errorLog).not.toHaveBeenCalled();
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+  });
+
+  test("uses the default timeout when the tool has none", async () => {
+    jest.useFakeTimers();
+    registry.register(tool("check_calendar", () => new Promise(() => {})));
+
+    const pending = registry.invoke("check_calendar", {}, call, 2_000);
+    await Promise.resolve();
+    jest.advanceTimersByTime(2_000);
+    expect(await pending).toBe("check_calendar timed out. Carry on without it.");
+  });
+});
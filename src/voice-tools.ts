@@ -0,0 +1,190 @@
+/**
+ * Custom function tools the voice model can call mid-call (calendar checks,
+ * order lookups, store hours, ...).
+ *
+ * Tools come from two places: other plugins register them on the exported
+ * voiceToolRegistry, and config-defined webhook tools POST the arguments to
+ * an HTTPS endpoint. Built-in tools (send_dtmf, end_call, ...) are not part
+ * of the registry and cannot be overridden.
+ */
+
+import type { CallRecord } from "./call-manager.ts";
+import { redactedLog } from "./redaction.ts";
+
+export const BUILTIN_VOICE_TOOLS = [
+  "send_dtmf",
+  "collect_digits",
+  "end_call",
+  "report_outcome",
+  "ask_agent",
+  "transfer_call",
+] as const;
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+const MAX_RESULT_LENGTH = 4000;
+
+export interface VoiceToolContext {
+  callId: string;
+  direction: CallRecord["direction"];
+  to: string;
+  from: string;
+  task: string;
+  /** Aborted when the handler times out. */
+  signal: AbortSignal;
+}
+
+export interface VoiceToolDefinition {
+  name: string;
+  /** Tells the voice model when and how to use the tool. */
+  description: string;
+  /** JSON Schema for the arguments object. */
+  parameters: Record<string, unknown>;
+  /** Returns a string or JSON-serializable value handed back to the model. */
+  handler: (args: Record<string, unknown>, ctx: VoiceToolContext) => unknown | Promise<unknown>;
+  /** Overrides customTools.timeoutSeconds for this tool. */
+  timeoutMs?: number;
+}
+
+/**
+ * Throw from a handler to give the voice model a specific message. Any other
+ * error is logged and reported to the model as a generic failure.
+ */
+export class VoiceToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoiceToolError";
+  }
+}
+
+export class VoiceToolRegistry {
+  private tools = new Map<string, VoiceToolDefinition>();
+
+  /** Register a tool. Returns a function that unregisters it. */
+  register(tool: VoiceToolDefinition): () => void {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`Invalid voice tool name "${tool.name}": use letters, digits, _ or - (max 64 chars)`);
+    }
+    if ((BUILTIN_VOICE_TOOLS as readonly string[]).includes(tool.name)) {
+      throw new Error(`Voice tool name "${tool.name}" is reserved for a built-in tool`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Voice tool "${tool.name}" is already registered`);
+    }
+
+    this.tools.set(tool.name, tool);
+    return () => {
+      if (this.tools.get(tool.name) === tool) this.tools.delete(tool.name);
+    };
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /** Tools available to a call; an allowlist of undefined means all of them. */
+  list(allowlist?: string[]): VoiceToolDefinition[] {
+    const tools = Array.from(this.tools.values());
+    return allowlist ? tools.filter((t) => allowlist.includes(t.name)) : tools;
+  }
+
+  /**
+   * Run a tool's handler with a timeout and map the outcome to the string
+   * returned to the voice model. Never throws.
+   */
+  async invoke(
+    name: string,
+    args: Record<string, unknown>,
+    call: Omit<VoiceToolContext, "signal">,
+    defaultTimeoutMs: number
+  ): Promise<string> {
+    const tool = this.tools.get(name);
+    if (!tool) return `Unknown function: ${name}`;
+
+    const timeoutMs = tool.timeoutMs ?? defaultTimeoutMs;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new VoiceToolError(`${name} timed out. Carry on without it.`));
+      }, timeoutMs);
+    });
+
+    try {
+      const value = await Promise.race([
+        Promise.resolve().then(() => tool.handler(args, { ...call, signal: controller.signal })),
+        timeout,
+      ]);
+      return formatToolResult(value);
+    } catch (err) {
+      if (err instanceof VoiceToolError) return err.message;
+      redactedLog.error(
+        `[openclaw-voice-gpt-realtime] Voice tool ${name} failed on call ${call.callId}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+      return `${name} failed. Carry on without it.`;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function formatToolResult(value: unknown): string {
+  const text = typeof value === "string" ? value : value === undefined ? "Done." : JSON.stringify(value);
+  return text.length > MAX_RESULT_LENGTH ? `${text.slice(0, MAX_RESULT_LENGTH)}… [truncated]` : text;
+}
+
+export interface WebhookToolConfig {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  url: string;
+  headers: Record<string, string>;
+  timeoutSeconds?: number;
+}
+
+/**
+ * Build a tool that POSTs { tool, args, call } as JSON to a webhook and hands
+ * the response body (JSON or text) back to the voice model.
+ */
+export function createWebhookTool(def: WebhookToolConfig): VoiceToolDefinition {
+  return {
+    name: def.name,
+    description: def.description,
+    parameters: def.parameters,
+    timeoutMs: def.timeoutSeconds !== undefined ? def.timeoutSeconds * 1000 : undefined,
+    async handler(args, ctx) {
+      const res = await fetch(def.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...def.headers },
+        body: JSON.stringify({
+          tool: def.name,
+          args,
+          call: { callId: ctx.callId, direction: ctx.direction, to: ctx.to, from: ctx.from, task: ctx.task },
+        }),
+        signal: ctx.signal,
+      });
+
+      const body = await res.text();
+      if (!res.ok) {
+        redactedLog.error(
+          `[openclaw-voice-gpt-realtime] Webhook tool ${def.name} returned HTTP ${res.status}: ${body.slice(0, 200)}`
+        );
+        throw new VoiceToolError(`${def.name} is unavailable right now. Carry on without it.`);
+      }
+      try {
+        return JSON.parse(body) as unknown;
+      } catch {
+        return body;
+      }
+    },
+  };
+}
+
+/** Shared registry; other plugins import it to add tools. */
+export const voiceToolRegistry = new VoiceToolRegistry();